@@ -1,10 +1,17 @@
-import {Blockchain, BlockchainTransaction} from "./Blockchain";
-import {Address, beginCell, Cell, Contract, contractAddress, ContractProvider, Dictionary, Sender, storeTransaction, toNano} from "@ton/core";
+import {Blockchain, BlockchainTransaction, TransactionLimitError} from "./Blockchain";
+import {Address, beginCell, BitString, Cell, Contract, contractAddress, ContractProvider, Dictionary, internal as internalRelaxed, Message, Sender, SendMode, storeMessage, storeTransaction, toNano} from "@ton/core";
 import {compareTransaction, flattenTransaction, randomAddress} from "@ton/test-utils";
 import { createShardAccount, GetMethodError, TimeError } from "./SmartContract";
 import { internal } from "../utils/message";
 import { SandboxContractProvider } from "./BlockchainContractProvider";
 import { TickOrTock } from "../executor/Executor";
+import { scheduleQueueStrategy } from "./Interleavings";
+import { BlockchainConfigEditor } from "../config/BlockchainConfigEditor";
+import { libraryCell } from "./Libraries";
+import { TreasuryContract } from "../treasury/Treasury";
+import { testSubwalletId } from "../utils/testTreasurySubwalletId";
+import { Coverage } from "../debug/Coverage";
+import { GasProfiler } from "../debug/GasProfiler";
 
 describe('Blockchain', () => {
     it('should print debug logs', async () => {
@@ -556,6 +563,10 @@ describe('Blockchain', () => {
         if (res.description.type !== 'tick-tock')
             throw new Error('Tick tock transaction expected')
         expect(res.description.isTock).toBe(false)
+        smc.setVerbosity({ vmLogs: 'vm_logs_gas', print: false })
+        const profiler = new GasProfiler()
+        profiler.addTransaction(await smc.runTickTock('tick'))
+        expect(profiler.collapsedStacks()).toContain(`${testAddr.toString()};tick;`)
     })
 
     it('should chain tick tock transaction output', async () => {
@@ -602,6 +613,610 @@ describe('Blockchain', () => {
         expect(tt.description.isTock).toBe(true)
     })
 
+    it('should run tick tock transactions on special accounts', async () => {
+        const blockchain = await Blockchain.create()
+        const code = Cell.fromBase64('te6ccgEBBAEANwABFP8A9KQT9LzyyAsBAgEgAgMAAtIAP6X//38QGDgpgEAMZGWC/BRnixD9AWW1ZY/ln+S5/YBA')
+        const data = beginCell().endCell()
+        const testAddr = contractAddress(-1, {code, data})
+        await blockchain.setShardAccount(testAddr, createShardAccount({
+            address: testAddr,
+            code,
+            data,
+            balance: toNano('1')
+        }))
+
+        blockchain.registerSpecialAccount(testAddr)
+        expect(blockchain.specialAccounts).toEqual([{ address: testAddr, which: ['tick', 'tock'] }])
+
+        let res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: testAddr,
+            value: toNano('1'),
+        }))
+        expect(res.transactions.map(tx => tx.description.type === 'tick-tock' ? (tx.description.isTock ? 'tock' : 'tick') : 'generic'))
+            .toEqual(['tick', 'generic', 'generic', 'tock', 'generic'])
+
+        // Manual tick tock does not trigger special accounts
+        res = await blockchain.runTickTock(testAddr, 'tock')
+        expect(res.transactions.length).toBe(2)
+
+        blockchain.registerSpecialAccount(testAddr, ['tock'])
+        res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: testAddr,
+            value: toNano('1'),
+        }))
+        expect(res.transactions.map(tx => tx.description.type)).toEqual(['generic', 'tick-tock', 'generic'])
+
+        blockchain.unregisterSpecialAccount(testAddr)
+        res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: testAddr,
+            value: toNano('1'),
+        }))
+        expect(res.transactions.length).toBe(1)
+    })
+
+    it('should manipulate pending messages', async () => {
+        const blockchain = await Blockchain.create()
+        const [wallet, a, b] = await blockchain.createWallets(3)
+
+        const transfer = (): Message => ({
+            info: { type: 'external-in', dest: wallet.address, importFee: 0n },
+            body: wallet.createTransfer({
+                messages: [
+                    internalRelaxed({ to: a.address, value: toNano('1'), bounce: false }),
+                    internalRelaxed({ to: b.address, value: toNano('1'), bounce: false }),
+                ],
+            }),
+        })
+
+        let iter = await blockchain.sendMessageIter(transfer())
+        await iter.next()
+        let [toA, toB] = blockchain.pendingMessages
+        blockchain.dropPendingMessage(toA)
+        blockchain.duplicatePendingMessage(toB)
+        let txs: BlockchainTransaction[] = []
+        for await (const tx of iter) {
+            txs.push(tx)
+        }
+        expect(txs.length).toBe(2)
+        expect(txs[0].inMessage?.info.dest).toEqualAddress(b.address)
+        expect(txs[1].inMessage?.info.dest).toEqualAddress(b.address)
+        expect(() => blockchain.dropPendingMessage(toA)).toThrow('Message is not pending')
+
+        iter = await blockchain.sendMessageIter(transfer())
+        await iter.next();
+        [toA, toB] = blockchain.pendingMessages
+        blockchain.delayPendingMessage(toA)
+        const body = beginCell().storeUint(0xdeadbeef, 32).endCell()
+        blockchain.updatePendingMessage(toB, message => ({ ...message, body }))
+        txs = []
+        for await (const tx of iter) {
+            txs.push(tx)
+        }
+        expect(txs[0].inMessage?.info.dest).toEqualAddress(b.address)
+        expect(txs[0].inMessage?.body.equals(body)).toBe(true)
+        expect(txs[1].inMessage?.info.dest).toEqualAddress(a.address)
+
+        iter = await blockchain.sendMessageIter(transfer())
+        await iter.next();
+        [toA, toB] = blockchain.pendingMessages
+        blockchain.movePendingMessage(toB, 0)
+        expect(blockchain.pendingMessages).toEqual([toB, toA])
+    })
+
+    it('should call hooks', async () => {
+        const blockchain = await Blockchain.create()
+        const [wallet, a, b] = await blockchain.createWallets(3)
+
+        const body = beginCell().storeUint(0xdeadbeef, 32).endCell()
+        const unsubscribeBefore = blockchain.onBeforeMessage((message) => {
+            if (message.info.dest instanceof Address && message.info.dest.equals(a.address)) {
+                return 'veto'
+            }
+            if (message.info.dest instanceof Address && message.info.dest.equals(b.address)) {
+                return { ...message, body }
+            }
+        })
+        const balances: [bigint, bigint][] = []
+        const unsubscribeAfter = blockchain.onAfterTransaction((tx, { before, after }) => {
+            balances.push([before.account!.storage.balance.coins, after.account!.storage.balance.coins])
+        })
+
+        let res = await wallet.send({ to: a.address, value: toNano('1') })
+        expect(res.transactions.length).toBe(1)
+        expect(balances.length).toBe(1)
+        expect(balances[0][1]).toBeLessThan(balances[0][0])
+
+        res = await wallet.send({ to: b.address, value: toNano('1') })
+        expect(res.transactions.length).toBe(2)
+        expect(res.transactions[1].inMessage?.body).toEqualCell(body)
+        expect(balances.length).toBe(3)
+        expect(balances[2][1]).toBeGreaterThan(balances[2][0])
+
+        unsubscribeBefore()
+        unsubscribeAfter()
+        res = await wallet.send({ to: a.address, value: toNano('1') })
+        expect(res.transactions.length).toBe(2)
+        expect(balances.length).toBe(3)
+
+        const address = randomAddress()
+        await blockchain.setShardAccount(address, createShardAccount({
+            address,
+            code: Cell.fromBoc(Buffer.from('te6ccgEBAgEAJgABFP8A9KQT9LzyyAsBAC7TXwRwVHAAc8jLAcsBywHLYcsfyXD7AA==', 'base64'))[0],
+            data: new Cell(),
+            balance: toNano('1'),
+        }))
+        const externals: Cell[] = []
+        blockchain.onExternalOut((external, tx) => {
+            expect(tx.externals).toContain(external)
+            externals.push(external.body)
+        })
+        await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: address,
+            value: toNano('1'),
+        }))
+        expect(externals.length).toBe(1)
+        expect(externals[0]).toEqualCell(beginCell().storeUint(0, 32).endCell())
+    })
+
+    it('should throw when transaction limits are exceeded', async () => {
+        const blockchain = await Blockchain.create({ limits: { maxDepth: 1 } })
+        const [wallet, receiver] = await blockchain.createWallets(2)
+
+        const limitError = async (promise: Promise<unknown>) => {
+            try {
+                await promise
+            } catch (e) {
+                if (e instanceof TransactionLimitError) {
+                    return e
+                }
+                throw e
+            }
+            throw new Error('TransactionLimitError expected')
+        }
+
+        let e = await limitError(wallet.send({ to: receiver.address, value: toNano('1') }))
+        expect(e.limit).toBe('maxDepth')
+        expect(e.transactions.length).toBe(1)
+        expect(e.pendingMessages.length).toBe(1)
+        expect(blockchain.pendingMessages.length).toBe(0)
+
+        e = await limitError(blockchain.sendMessages([
+            internal({ from: wallet.address, to: receiver.address, value: toNano('1'), bounce: false }),
+            internal({ from: wallet.address, to: receiver.address, value: toNano('1'), bounce: false }),
+        ], { limits: { maxTransactionsPerAddress: 1 } }))
+        expect(e.limit).toBe('maxTransactionsPerAddress')
+        expect(e.address).toEqualAddress(receiver.address)
+        expect(e.transactions.length).toBe(1)
+
+        blockchain.limits = {}
+        const res = await wallet.send({ to: receiver.address, value: toNano('1') })
+        expect(res.transactions.length).toBe(2)
+    })
+
+    it('should fork blockchain', async () => {
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+        const receiver = await blockchain.treasury('receiver')
+        const balance = await receiver.getBalance()
+
+        const fork = blockchain.fork()
+        const forkWallet = await fork.treasury('wallet')
+        const forkReceiver = await fork.treasury('receiver')
+        expect(await forkReceiver.getBalance()).toBe(balance)
+
+        await forkWallet.send({ to: receiver.address, value: toNano('10') })
+        expect(await forkReceiver.getBalance()).toBeGreaterThan(balance)
+        expect(await receiver.getBalance()).toBe(balance)
+
+        await wallet.send({ to: receiver.address, value: toNano('1') })
+        const forkBalance = await forkReceiver.getBalance()
+        expect(forkBalance).toBeGreaterThan(await receiver.getBalance())
+
+        const fork2 = fork.fork()
+        expect(await (await fork2.treasury('receiver')).getBalance()).toBe(forkBalance)
+        expect(fork2.lt).toBe(fork.lt)
+
+        const newAccount = randomAddress()
+        await wallet.send({ to: newAccount, value: toNano('1'), bounce: false })
+        expect((await blockchain.getContract(newAccount)).balance).toBeGreaterThan(0n)
+        expect((await fork.getContract(newAccount)).balance).toBe(0n)
+        expect((await fork.getContract(newAccount)).lastTransactionLt).toBe(0n)
+    })
+
+    it('should record transaction history', async () => {
+        const blockchain = await Blockchain.create({ transactionHistory: {} })
+        const wallet = await blockchain.treasury('wallet')
+        const receiver = randomAddress()
+
+        const first = await wallet.send({ to: receiver, value: toNano('1'), bounce: false })
+        const second = await wallet.send({ to: receiver, value: toNano('1'), bounce: false })
+
+        const contract = await blockchain.getContract(wallet.address)
+        const lastHash = Buffer.from(contract.lastTransactionHash.toString(16).padStart(64, '0'), 'hex')
+        const txs = await blockchain.provider(wallet.address).getTransactions(wallet.address, contract.lastTransactionLt, lastHash, 2)
+        expect(txs).toEqual([second.transactions[0], first.transactions[0]])
+
+        expect(blockchain.getTransaction(second.transactions[1].hash())).toBe(second.transactions[1])
+        const message = second.transactions[1].inMessage!
+        expect(blockchain.getTransactionByMessageHash(beginCell().store(storeMessage(message)).endCell().hash())).toBe(second.transactions[1])
+    })
+
+    it('should return historical account state', async () => {
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+        const initialBalance = await wallet.getBalance()
+        blockchain.recordStates = true
+
+        const first = await wallet.send({ to: randomAddress(), value: toNano('1'), bounce: false })
+        const afterFirst = await wallet.getBalance()
+        await wallet.send({ to: randomAddress(), value: toNano('1'), bounce: false })
+
+        const firstTx = first.transactions[0]
+        expect((await blockchain.getContractAt(wallet.address, firstTx.lt - 1n)).balance).toBe(initialBalance)
+        expect((await blockchain.getContractAt(wallet.address, firstTx.lt)).balance).toBe(afterFirst)
+        expect((await blockchain.getContractAt(wallet.address, blockchain.lt)).balance).toBe(await wallet.getBalance())
+
+        await expect(blockchain.getContractAt(wallet.address, 0n)).rejects.toThrow()
+    })
+
+    it('should charge storage fees and freeze accounts', async () => {
+        const blockchain = await Blockchain.create()
+        blockchain.now = 1_700_000_000
+
+        const code = Cell.fromBoc(Buffer.from('te6ccgEBAgEAEgABFP8A9KQT9LzyyAsBAAbTXwQ=', 'base64'))[0]
+        let data = beginCell().endCell()
+        for (let i = 0; i < 300; i++) {
+            data = beginCell().storeBits(new BitString(Buffer.alloc(128, i), 0, 1023)).storeRef(data).endCell()
+        }
+        // an account at the address of its own state init is stored as uninit instead of frozen
+        const address = randomAddress()
+        const account = createShardAccount({ address, code, data, balance: 0n, lastPaid: blockchain.now })
+        expect(account.account!.storageStats.used.cells).toBeGreaterThan(300n)
+        await blockchain.setShardAccount(address, account)
+
+        blockchain.advanceTime(365 * 24 * 60 * 60)
+        expect(blockchain.now).toBe(1_700_000_000 + 365 * 24 * 60 * 60)
+
+        const sender = randomAddress()
+        let res = await blockchain.sendMessage(internal({ from: sender, to: address, value: toNano('0.01'), bounce: true }))
+        expect(res.transactions).toHaveTransaction({ on: address, endStatus: 'frozen' })
+        expect((await blockchain.getContract(address)).accountState?.type).toBe('frozen')
+
+        res = await blockchain.sendMessage(internal({ from: sender, to: address, value: toNano('1'), bounce: false, stateInit: { code, data } }))
+        expect(res.transactions).toHaveTransaction({ on: address, oldStatus: 'frozen', endStatus: 'active' })
+        expect((await blockchain.getContract(address)).accountState?.type).toBe('active')
+    })
+
+    it('should not charge storage fees before the first transaction of accounts without lastPaid', async () => {
+        const blockchain = await Blockchain.create()
+        blockchain.now = 1_700_000_000
+
+        const code = Cell.fromBoc(Buffer.from('te6ccgEBAgEAEgABFP8A9KQT9LzyyAsBAAbTXwQ=', 'base64'))[0]
+        const address = randomAddress()
+        await blockchain.setShardAccount(address, createShardAccount({ address, code, data: beginCell().endCell(), balance: toNano('1') }))
+        const storageFees = (tx: BlockchainTransaction) => tx.description.type === 'generic' ? tx.description.storagePhase?.storageFeesCollected : undefined
+        const send = () => blockchain.sendMessage(internal({ from: randomAddress(), to: address, value: toNano('0.01'), bounce: false }))
+
+        blockchain.advanceTime(365 * 24 * 60 * 60)
+        let res = await send()
+        expect(storageFees(res.transactions[0])).toBe(0n)
+
+        blockchain.advanceTime(365 * 24 * 60 * 60)
+        res = await send()
+        expect(storageFees(res.transactions[0])).toBeGreaterThan(0n)
+    })
+
+    it('should update config params', async () => {
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+        const to = randomAddress()
+
+        const before = await wallet.send({ to, value: toNano('1'), bounce: false })
+        blockchain.updateConfig((config) => {
+            const gas = config.getGasPrices(0)
+            config.setGasPrices(0, { ...gas, gasPrice: gas.gasPrice * 2n, flatGasPrice: (gas.flatGasPrice ?? 0n) * 2n })
+        })
+        const after = await wallet.send({ to, value: toNano('1'), bounce: false })
+
+        expect(after.transactions[0].totalFees.coins).toBeGreaterThan(before.transactions[0].totalFees.coins)
+        expect(new BlockchainConfigEditor(blockchain.config).getGasPrices(0).gasPrice).toBe(52428800n)
+    })
+
+    it('should apply library changes of masterchain accounts', async () => {
+        const blockchain = await Blockchain.create()
+        // DROP LDU 8 LDREF DROP SWAP SETLIBCODE: body is mode:uint8 and library as a ref
+        const code = beginCell().storeBuffer(Buffer.from('30D307D43001FB06', 'hex')).endCell()
+        const data = beginCell().endCell()
+        const publishers = [0, 1].map(i => createShardAccount({ code, data: beginCell().storeUint(i, 8).endCell(), balance: toNano('10'), workchain: -1 }))
+        for (const account of publishers) {
+            await blockchain.setShardAccount(account.account!.addr, account)
+        }
+        const [first, second] = publishers.map(account => account.account!.addr)
+        const lib = beginCell().storeUint(0xdeadbeef, 32).endCell()
+        const libs = () => Dictionary.loadDirect(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell(), blockchain.libs ?? null)
+        const change = (to: Address, mode: number) => blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to,
+            value: toNano('1'),
+            body: beginCell().storeUint(mode, 8).storeRef(lib).endCell(),
+        }))
+
+        await change(first, 1)
+        expect(blockchain.libs).toBeUndefined()
+
+        await change(first, 2)
+        expect(libs().get(lib.hash())).toEqualCell(lib)
+        await change(second, 2)
+
+        await change(first, 0)
+        expect(libs().get(lib.hash())).toEqualCell(lib)
+        await change(second, 1)
+        expect(blockchain.libs).toBeUndefined()
+    })
+
+    it('should register libraries', async () => {
+        const blockchain = await Blockchain.create()
+        // DROP LDU 8 LDREF DROP SWAP SETLIBCODE: body is mode:uint8 and library as a ref
+        const code = beginCell().storeBuffer(Buffer.from('30D307D43001FB06', 'hex')).endCell()
+        const codeLibrary = await blockchain.registerLibrary(code)
+        expect(codeLibrary).toEqualCell(libraryCell(code))
+
+        const account = createShardAccount({ code: codeLibrary, data: beginCell().endCell(), balance: toNano('10'), workchain: -1 })
+        const publisher = account.account!.addr
+        await blockchain.setShardAccount(publisher, account)
+        const lib = beginCell().storeUint(0xdeadbeef, 32).endCell()
+        await blockchain.registerLibrary(lib, { publisher, public: false })
+        expect(blockchain.listLibraries()).toEqual([
+            { hash: code.hash(), code, public: true, publishers: [] },
+            { hash: lib.hash(), code: lib, public: false, publishers: [publisher] },
+        ])
+
+        const snapshot = blockchain.snapshot()
+        const res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: publisher,
+            value: toNano('1'),
+            body: beginCell().storeUint(2, 8).storeRef(lib).endCell(),
+        }))
+        expect(res.transactions).toHaveTransaction({ on: publisher, success: true })
+        expect(blockchain.listLibraries()[1].public).toBe(true)
+
+        await blockchain.unregisterLibrary(lib.hash())
+        expect(blockchain.listLibraries()).toHaveLength(1)
+
+        await blockchain.loadFrom(snapshot)
+        expect(blockchain.listLibraries()[1]).toEqual({ hash: lib.hash(), code: lib, public: false, publishers: [publisher] })
+    })
+
+    it('should resolve missing libraries', async () => {
+        const blockchain = await Blockchain.create()
+        // DROP PUSHINT 7: returns 7 from any get method and accepts any message
+        const code = beginCell().storeBuffer(Buffer.from('3077', 'hex')).endCell()
+        const account = createShardAccount({ code: libraryCell(code), data: beginCell().endCell(), balance: toNano('1') })
+        const address = account.account!.addr
+        await blockchain.setShardAccount(address, account)
+        const send = () => blockchain.sendMessage(internal({ from: randomAddress(), to: address, value: toNano('1') }))
+
+        expect((await send()).transactions).toHaveTransaction({ on: address, success: false })
+
+        const requested: Buffer[] = []
+        blockchain.libraryResolver = async (hash) => {
+            requested.push(hash)
+            return hash.equals(code.hash()) ? code : undefined
+        }
+        expect((await send()).transactions).toHaveTransaction({ on: address, success: true })
+        expect((await blockchain.runGetMethod(address, 'get_value')).stackReader.readNumber()).toBe(7)
+        expect(requested).toEqual([code.hash()])
+        expect(blockchain.listLibraries()).toEqual([{ hash: code.hash(), code, public: true, publishers: [] }])
+
+        // DROP PUSHINT 8, published privately by a masterchain account
+        const privateCode = beginCell().storeBuffer(Buffer.from('3078', 'hex')).endCell()
+        const publisher = randomAddress(-1)
+        await blockchain.setShardAccount(publisher, createShardAccount({ address: publisher, code, data: beginCell().endCell(), balance: toNano('1'), workchain: -1 }))
+        await blockchain.registerLibrary(privateCode, { publisher, public: false })
+        const user = createShardAccount({ code: libraryCell(privateCode), data: beginCell().endCell(), balance: toNano('1') })
+        await blockchain.setShardAccount(user.account!.addr, user)
+
+        const res = await blockchain.sendMessage(internal({ from: randomAddress(), to: user.account!.addr, value: toNano('1') }))
+        expect(res.transactions).toHaveTransaction({ on: user.account!.addr, success: false })
+        expect(requested).toEqual([code.hash()])
+        expect(blockchain.listLibraries()[1]).toEqual({ hash: privateCode.hash(), code: privateCode, public: false, publishers: [publisher] })
+    })
+
+    it('should decode out actions', async () => {
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+        const to = randomAddress()
+
+        let res = await wallet.send({ to, value: toNano('1'), bounce: false, sendMode: SendMode.PAY_GAS_SEPARATELY })
+        const [action] = res.transactions[0].outActions
+        expect(action.type === 'sendMsg' && action.mode).toBe(SendMode.PAY_GAS_SEPARATELY)
+        expect(action.type === 'sendMsg' && action.outMsg.info.dest).toEqualAddress(to)
+
+        res = await wallet.sendMessages([
+            internalRelaxed({ to, value: toNano('1'), bounce: false }),
+            internalRelaxed({ to, value: toNano('100000000'), bounce: false }),
+        ], SendMode.NONE)
+        const tx = res.transactions[0]
+        expect(tx.description.type === 'generic' && tx.description.actionPhase?.success).toBe(false)
+        expect(tx.outActions.map(a => a.type === 'sendMsg' && a.mode)).toEqual([SendMode.NONE, SendMode.NONE])
+    })
+
+    it('should open contracts with params', async () => {
+        class NowContract implements Contract {
+            constructor(readonly address: Address) {}
+
+            async getNow(provider: ContractProvider) {
+                return (await provider.get('now', [])).stack.readNumber()
+            }
+        }
+
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+        const now = 1_900_000_000
+        const scoped = blockchain.withParams({ now, verbosity: 'none' }).openContract(TreasuryContract.create(0, testSubwalletId('wallet')))
+        expect(scoped.address).toEqualAddress(wallet.address)
+        const res = await scoped.send({ to: randomAddress(), value: toNano('1'), bounce: false })
+        expect(res.transactions.map(tx => tx.now)).toEqual([now, now])
+
+        // DROP NOW: returns current time from any get method
+        const code = beginCell().storeBuffer(Buffer.from('30F823', 'hex')).endCell()
+        const account = createShardAccount({ code, data: beginCell().endCell(), balance: toNano('1') })
+        await blockchain.setShardAccount(account.account!.addr, account)
+        expect(await blockchain.withParams({ now: 123 }).openContract(new NowContract(account.account!.addr)).getNow()).toBe(123)
+        expect(await blockchain.openContract(new NowContract(account.account!.addr)).getNow()).toBeGreaterThan(123)
+    })
+
+    it('should derive random seeds of transactions', async () => {
+        const run = async (configure: (blockchain: Blockchain) => void) => {
+            const blockchain = await Blockchain.create()
+            blockchain.now = 1_900_000_000
+            configure(blockchain)
+            const wallet = await blockchain.treasury('wallet')
+            const res = await wallet.send({ to: new Address(0, Buffer.alloc(32)), value: toNano('1'), bounce: false })
+            return res.transactions.map(tx => tx.randomSeed)
+        }
+
+        expect(await run(() => {})).toEqual([Buffer.alloc(32), Buffer.alloc(32)])
+
+        const derived = await run(blockchain => blockchain.randomSeed = { type: 'derived', seed: Buffer.from('seed') })
+        expect(derived[0]).not.toEqual(derived[1])
+        expect(derived[0]).not.toEqual(Buffer.alloc(32))
+        expect(await run(blockchain => blockchain.randomSeed = { type: 'derived', seed: Buffer.from('seed') })).toEqual(derived)
+        expect(await run(blockchain => blockchain.randomSeed = { type: 'derived', seed: Buffer.from('other') })).not.toEqual(derived)
+
+        const calls: [Address, bigint][] = []
+        const custom = await run(blockchain => blockchain.randomSeed = {
+            type: 'custom',
+            get: (address, lt) => {
+                calls.push([address, lt])
+                return Buffer.alloc(32, calls.length)
+            },
+        })
+        expect(custom).toEqual([Buffer.alloc(32, calls.length - 1), Buffer.alloc(32, calls.length)])
+
+        const blockchain = await Blockchain.create({ randomSeed: { type: 'derived', seed: Buffer.from('seed') } })
+        const explicit = Buffer.alloc(32, 7)
+        const res = await blockchain.sendMessage(internal({ from: randomAddress(), to: randomAddress(), value: toNano('1'), bounce: false }), { randomSeed: explicit })
+        expect(res.transactions[0].randomSeed).toEqual(explicit)
+    })
+
+    it('should profile gas of transactions and get methods', async () => {
+        const blockchain = await Blockchain.create()
+        const wallet = await blockchain.treasury('wallet')
+
+        const { transactions, profiler } = await blockchain.profileMessage(internal({
+            from: randomAddress(),
+            to: wallet.address,
+            value: toNano('1'),
+            body: beginCell().storeUint(0x1234, 32).endCell(),
+        }))
+        const tx = transactions[0]
+        if (tx.description.type !== 'generic' || tx.description.computePhase.type !== 'vm') {
+            throw new Error('Compute phase expected')
+        }
+        expect(tx.vmLogs).toContain('gas remaining')
+        expect(profiler.totalGas).toBe(tx.description.computePhase.gasUsed)
+        expect(profiler.table('op').map(row => row.key)).toEqual(['0x1234'])
+        expect(profiler.collapsedStacks()).toContain(`${wallet.address.toString()};0x1234;`)
+
+        // DROP NOW
+        const code = beginCell().storeBuffer(Buffer.from('30F823', 'hex')).endCell()
+        const account = createShardAccount({ code, data: beginCell().endCell(), balance: toNano('1') })
+        await blockchain.setShardAccount(account.account!.addr, account)
+        const res = await blockchain.profileGetMethod(account.account!.addr, 'get_now')
+        expect(res.profiler.totalGas).toBe(res.gasUsed)
+        expect(res.profiler.table('instruction').map(row => row.key).sort()).toEqual(['DROP', 'NOW', 'implicit RET'])
+    })
+
+    it('should collect coverage of get methods', async () => {
+        const coverage = new Coverage()
+        const blockchain = await Blockchain.create({ coverage })
+
+        // DROP NOW
+        const code = beginCell().storeBuffer(Buffer.from('30F823', 'hex')).endCell()
+        const account = createShardAccount({ code, data: beginCell().endCell(), balance: toNano('1') })
+        await blockchain.setShardAccount(account.account!.addr, account)
+        await blockchain.runGetMethod(account.account!.addr, 'get_now')
+        await blockchain.fork().runGetMethod(account.account!.addr, 'get_now')
+
+        const cellHash = code.hash().toString('hex')
+        expect(coverage.hits(cellHash, 0)).toBe(2)
+        expect(coverage.hits(cellHash, 8)).toBe(2)
+        expect(coverage.lcov([{
+            marks: [
+                { cellHash, offset: 0, location: { file: 'now.fc', line: 1 } },
+                { cellHash, offset: 8, location: { file: 'now.fc', line: 2 } },
+                { cellHash, offset: 24, location: { file: 'now.fc', line: 3 } },
+            ],
+        }])).toContain('DA:1,2\nDA:2,2\nDA:3,0\n')
+    })
+
+    it('should return VM logs with requested verbosity while coverage is collected', async () => {
+        // DROP NOW
+        const code = beginCell().storeBuffer(Buffer.from('30F823', 'hex')).endCell()
+        const run = async (coverage: Coverage | undefined, vmLogs: 'none' | 'vm_logs') => {
+            const blockchain = await Blockchain.create({ coverage })
+            blockchain.now = 1000
+            const account = createShardAccount({ code, data: beginCell().endCell(), balance: toNano('1') })
+            const address = account.account!.addr
+            await blockchain.setShardAccount(address, account)
+            await blockchain.setVerbosityForAddress(address, { vmLogs, print: false })
+            const getMethod = await blockchain.runGetMethod(address, 'get_now')
+            const tx = (await blockchain.sendMessage(internal({
+                from: randomAddress(),
+                to: address,
+                value: toNano('1'),
+            }))).transactions[0]
+            return { getMethod: getMethod.vmLogs, tx: tx.vmLogs }
+        }
+
+        for (const vmLogs of ['none', 'vm_logs'] as const) {
+            const withCoverage = await run(new Coverage(), vmLogs)
+            expect(withCoverage.getMethod).not.toContain('code cell hash')
+            expect(withCoverage.tx).not.toContain('code cell hash')
+            expect(withCoverage).toEqual(await run(undefined, vmLogs))
+        }
+    })
+
+    it('should report failures of get methods in terms of sources', async () => {
+        const blockchain = await Blockchain.create()
+
+        // DROP PUSHINT 1001 THROWANY
+        const code = beginCell().storeBuffer(Buffer.from('308103E9F2F0', 'hex')).endCell()
+        const cellHash = code.hash().toString('hex')
+        blockchain.registerDebugInfo(code, {
+            marks: [
+                { cellHash, offset: 0, location: { file: 'main.fc', line: 1 }, function: 'main' },
+                { cellHash, offset: 8, location: { file: 'main.fc', line: 4 }, function: 'fail' },
+            ],
+            exitCodes: { 1001: 'NotEnoughFunds' },
+        })
+        const account = createShardAccount({ code, data: beginCell().endCell(), balance: toNano('1') })
+        await blockchain.setShardAccount(account.account!.addr, account)
+
+        const error = await blockchain.runGetMethod(account.account!.addr, 'get_value').catch(e => e)
+        expect(error).toBeInstanceOf(GetMethodError)
+        expect(error.report).toEqual({
+            exitCode: 1001,
+            exitCodeName: 'NotEnoughFunds',
+            location: { file: 'main.fc', line: 4 },
+            callStack: [
+                { function: 'fail', location: { file: 'main.fc', line: 4 } },
+                { function: 'main', location: { file: 'main.fc', line: 1 } },
+            ],
+            lines: [
+                { location: { file: 'main.fc', line: 1 } },
+                { location: { file: 'main.fc', line: 4 } },
+            ],
+        })
+        expect(error.message).toContain('Exit code 1001 (NotEnoughFunds) at main.fc:4')
+    })
+
     it('should support TVM v6 opcodes', async () => {
         const blockchain = await Blockchain.create()
         const addr = randomAddress()
@@ -671,4 +1286,144 @@ describe('Blockchain', () => {
         const d = Dictionary.loadDirect(Dictionary.Keys.Uint(32), Dictionary.Values.BigVarUint(5), c);
         expect(d.get(1)).toEqual(100n);
     });
+
+    it('should produce blocks', async () => {
+        const blockchain = await Blockchain.create()
+        blockchain.produceBlocks = true
+
+        // DROP PREVMCBLOCKS
+        const code = beginCell().storeUint(0x30f83400, 32).endCell()
+        const address = randomAddress()
+        await blockchain.setShardAccount(address, createShardAccount({
+            address,
+            code,
+            data: new Cell(),
+            balance: toNano('1'),
+        }))
+
+        const res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: address,
+            value: toNano('1'),
+        }))
+
+        const block = res.transactions[0].block!
+        expect(block.workchain).toBe(0)
+        expect(block.seqno).toBe(1)
+        expect(blockchain.prevBlocks!.lastMcBlocks[0].seqno).toBe(1)
+        expect(blockchain.prevBlocks!.lastMcBlocks.length).toBe(2)
+
+        const { stackReader } = await blockchain.runGetMethod(address, 0)
+        const lastBlock = stackReader.readTuple().readTuple()
+        expect(lastBlock.readNumber()).toBe(-1)
+        lastBlock.readBigNumber()
+        expect(lastBlock.readNumber()).toBe(1)
+    })
+
+    it('should deliver messages in the same order for the same seed', async () => {
+        const blockchain = await Blockchain.create()
+        blockchain.queueOrder = { type: 'random', seed: 42 }
+        const treasury = await blockchain.treasury('sender')
+
+        const destinations = [1, 2, 3, 4].map(() => randomAddress())
+        const order = async () => {
+            const { transactions } = await treasury.sendMessages(destinations.map(to => internalRelaxed({
+                to,
+                value: toNano('1'),
+                bounce: false,
+            })))
+            return transactions.slice(1).map(tx => (tx.inMessage!.info.dest as Address).toRawString())
+        }
+
+        const first = await order()
+        expect(first).not.toEqual(destinations.map(to => to.toRawString()))
+        expect(await order()).toEqual(first)
+    })
+
+    it('should explore interleavings', async () => {
+        const blockchain = await Blockchain.create()
+        const [wallet1, wallet2] = await blockchain.createWallets(2)
+        const receiver = randomAddress()
+
+        const messages = [wallet1, wallet2].map(w => internal({
+            from: w.address,
+            to: receiver,
+            value: toNano('1'),
+        }))
+
+        const report = await blockchain.exploreInterleavings(messages, (_, result) => {
+            expect(result.transactions.length).toBe(4)
+            return !(result.transactions[0].inMessage!.info.src as Address).equals(wallet2.address)
+        })
+
+        expect(report.complete).toBe(true)
+        expect(report.explored).toBeGreaterThan(2)
+        expect(report.failures.length).toBeGreaterThan(0)
+        for (const failure of report.failures) {
+            expect(failure.schedule[0]).toBe(1)
+        }
+
+        const replay = await blockchain.sendMessages(messages, { queueOrder: scheduleQueueStrategy(report.failures[0].schedule) })
+        expect(replay.transactions[0].inMessage!.info.src).toEqualAddress(wallet2.address)
+    })
+
+    it('should advance time according to clock policy', async () => {
+        const blockchain = await Blockchain.create({ clock: { type: 'per-hop', delay: 5 } })
+        blockchain.now = 1000
+
+        const [wallet1, wallet2] = await blockchain.createWallets(2)
+
+        let res = await wallet1.send({
+            to: wallet2.address,
+            value: toNano('1'),
+        })
+        expect(res.transactions.map(tx => tx.now)).toEqual([1000, 1005])
+        expect(blockchain.now).toBe(1005)
+
+        blockchain.clock = { type: 'auto-increment', step: 2 }
+        res = await wallet1.send({
+            to: wallet2.address,
+            value: toNano('1'),
+        })
+        expect(res.transactions.map(tx => tx.now)).toEqual([1005, 1007])
+        expect(blockchain.now).toBe(1009)
+
+        const current = await blockchain.sendMessage(internal({ from: wallet1.address, to: wallet2.address, value: toNano('1') }), { now: 1009 })
+        expect(current.transactions[0].now).toBe(1009)
+        expect(blockchain.now).toBe(1009)
+
+        const overridden = await blockchain.sendMessage(internal({ from: wallet1.address, to: wallet2.address, value: toNano('1') }), { now: 2000 })
+        expect(overridden.transactions[0].now).toBe(2000)
+        expect(blockchain.now).toBe(1009)
+    })
+
+    it('should not throw time error with monotonic clock', async () => {
+        const blockchain = await Blockchain.create({ clock: { type: 'fixed', monotonic: true } })
+
+        const address = randomAddress()
+
+        await blockchain.setShardAccount(address, createShardAccount({
+            address,
+            code: Cell.fromBoc(Buffer.from('te6ccgEBAgEAEgABFP8A9KQT9LzyyAsBAAbTXwQ=', 'base64'))[0],
+            data: new Cell(),
+            balance: toNano('1'),
+        }))
+
+        blockchain.now = 100
+
+        await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: address,
+            value: toNano('1'),
+        }))
+
+        blockchain.now = 99
+
+        const res = await blockchain.sendMessage(internal({
+            from: randomAddress(),
+            to: address,
+            value: toNano('1'),
+        }))
+        expect(res.transactions[0].now).toBe(100)
+    })
 })
@@ -1,3 +1,4 @@
+import { sha256_sync } from "@ton/crypto";
 import { defaultConfig } from "../config/defaultConfig";
 import {
     Address,
@@ -13,19 +14,31 @@ import {
     TupleItem,
     ExternalAddress,
     StateInit,
-    OpenedContract
+    OpenedContract,
+    OutAction
 } from "@ton/core";
 import {IExecutor, Executor, TickOrTock} from "../executor/Executor";
-import {BlockchainStorage, LocalBlockchainStorage} from "./BlockchainStorage";
+import {BlockchainStorage, ForkedBlockchainStorage, LocalBlockchainStorage} from "./BlockchainStorage";
 import { extractEvents, Event } from "../event/Event";
 import { BlockchainContractProvider, SandboxContractProvider } from "./BlockchainContractProvider";
 import { BlockchainSender } from "./BlockchainSender";
 import { TreasuryContract } from "../treasury/Treasury";
-import { GetMethodParams, LogsVerbosity, MessageParams, SmartContract, SmartContractSnapshot, SmartContractTransaction, Verbosity } from "./SmartContract";
+import { GetMethodParams, LogsVerbosity, MessageParams, SmartContract, SmartContractSnapshot, Verbosity } from "./SmartContract";
 import { AsyncLock } from "../utils/AsyncLock";
 import { internal } from "../utils/message";
 import { slimConfig } from "../config/slimConfig";
 import { testSubwalletId } from "../utils/testTreasurySubwalletId";
+import { createMessageQueueStrategy, MessageQueueOrder, MessageQueueStrategy, messageDepth } from "./MessageQueue";
+import { ExploreInterleavingsParams, InterleavingCheck, InterleavingFailure, InterleavingsReport, nextSchedule, scheduleQueueStrategy } from "./Interleavings";
+import { Breakpoint, BreakpointPredicate } from "./Breakpoint";
+import { TransactionHistory, TransactionHistoryParams } from "./TransactionHistory";
+import { loadFundamentalAddresses } from "../config/configParams";
+import { BlockchainConfigEditor } from "../config/BlockchainConfigEditor";
+import { accountLibraries, libraryCell, LibraryInfo, LibraryRegistry, LibraryResolver, LibrarySnapshot, setAccountLibrary } from "./Libraries";
+import { GasProfiler } from "../debug/GasProfiler";
+import { Coverage } from "../debug/Coverage";
+import { ContractDebugInfo, DebugInfoRegistry } from "../debug/DebugInfo";
+import { BlockId, createEmulatedBlock, EmulatedBlock, MASTERCHAIN_ID, MAX_PREV_MC_BLOCKS, PrevBlocksInfo, toBlockId } from "./Blocks";
 
 const CREATE_WALLETS_PREFIX = 'CREATE_WALLETS'
 
@@ -59,6 +72,9 @@ export type BlockchainTransaction = Transaction & {
     externals: ExternalOut[],
     oldStorage?: Cell,
     newStorage?: Cell,
+    outActions: OutAction[],
+    randomSeed: Buffer,
+    block?: BlockId,
 }
 
 /**
@@ -73,6 +89,118 @@ export type SendMessageResult = {
     externals: ExternalOut[],
 }
 
+/**
+ * @type RandomSeedPolicy Describes random seeds of transactions. Seed passed in params of a call takes precedence over the policy.
+ * - `'zero'` every transaction uses all-zero seed
+ * - `'derived'` seed of every transaction is derived from `seed`, logical time and address of the transaction, so it is deterministic but different for every transaction
+ * - `'custom'` seed of every transaction is returned by `get`, which has to return 32 bytes
+ */
+export type RandomSeedPolicy = {
+    type: 'zero',
+} | {
+    type: 'derived',
+    seed: Buffer,
+} | {
+    type: 'custom',
+    get: (address: Address, lt: bigint) => Buffer,
+}
+
+/**
+ * @type ClockPolicy Describes how time passes in blockchain.
+ * - `'fixed'` every transaction uses {@link Blockchain.now}, or current wall-clock time if it is not set
+ * - `'auto-increment'` every transaction uses {@link Blockchain.now}, which is advanced by `step` seconds after every transaction. Calls with `now` param
+ *   start from that time and advance their own clock, leaving {@link Blockchain.now} unchanged
+ * - `'per-hop'` every transaction triggered by a message uses the time of the transaction that sent the message plus `delay` seconds
+ * @property {boolean} monotonic If set, time of a transaction is moved forward to the time of the previous transaction on the same account instead of throwing {@link TimeError}
+ */
+export type ClockPolicy = ({
+    type: 'fixed',
+} | {
+    type: 'auto-increment',
+    step: number,
+} | {
+    type: 'per-hop',
+    delay: number,
+}) & {
+    monotonic?: boolean,
+}
+
+/**
+ * @type TransactionLimits Limits protecting from runaway transaction chains. Exceeding any of them throws {@link TransactionLimitError}.
+ * @property {number} maxTransactions Maximum number of transactions in a single call
+ * @property {number} maxDepth Maximum number of transactions in a chain, counting from the transaction caused by the sent message
+ * @property {number} maxTransactionsPerAddress Maximum number of transactions on a single account in a single call
+ */
+export type TransactionLimits = Partial<{
+    maxTransactions: number,
+    maxDepth: number,
+    maxTransactionsPerAddress: number,
+}>
+
+/**
+ * @type SendMessageParams Params used to process the message queue.
+ * @property {MessageQueueOrder} queueOrder Order in which pending messages are delivered. Overrides {@link Blockchain.queueOrder} for a single call
+ * @property {TransactionLimits} limits Limits for a single call, merged with {@link Blockchain.limits}
+ */
+export type SendMessageParams = MessageParams & Partial<{
+    queueOrder: MessageQueueOrder,
+    limits: TransactionLimits,
+}>
+
+/**
+ * @type ContractCallParams Params applied to every call of a contract opened with {@link Blockchain.withParams}. Send methods process the message queue
+ * with them, get methods are run with them.
+ */
+export type ContractCallParams = SendMessageParams & GetMethodParams
+
+export class TransactionLimitError extends Error {
+    constructor(
+        public limit: keyof TransactionLimits,
+        public value: number,
+        public transactions: BlockchainTransaction[],
+        public pendingMessages: PendingMessage[],
+        public address?: Address,
+    ) {
+        super(`Transaction limit exceeded: ${limit} = ${value}${address === undefined ? '' : ` on account ${address}`}. ${transactions.length} transactions were executed, ${pendingMessages.length} messages were left pending`)
+    }
+}
+
+/**
+ * @type BeforeMessageHook Called before a message is delivered. Returning `'veto'` drops the message, returning a message delivers it instead of the original one.
+ */
+export type BeforeMessageHook = (message: Message, parent: BlockchainTransaction | undefined) => Message | 'veto' | void | Promise<Message | 'veto' | void>
+
+/**
+ * @type AfterTransactionHook Called after every transaction with the state of the account before and after it.
+ */
+export type AfterTransactionHook = (transaction: BlockchainTransaction, state: { before: ShardAccount, after: ShardAccount }) => void | Promise<void>
+
+/**
+ * @type ExternalOutHook Called for every external out message sent by a transaction.
+ */
+export type ExternalOutHook = (external: ExternalOut, transaction: BlockchainTransaction) => void | Promise<void>
+
+/**
+ * @type SpecialAccount Account that runs tick-tock transactions around every batch of messages, like special accounts do in masterchain.
+ * @property {Address} address Address of the account
+ * @property {TickOrTock[]} which Transactions to run: tick before the batch, tock after it
+ */
+export type SpecialAccount = {
+    address: Address,
+    which: TickOrTock[],
+}
+
+type QueueRun = {
+    params?: SendMessageParams
+    strategy: MessageQueueStrategy
+    tickTock: 'tick' | 'tock' | 'done'
+    limits: TransactionLimits
+    transactions: BlockchainTransaction[]
+    addressTransactions: Map<string, number>
+    // Clock of the run in auto-increment mode when `now` is overridden by params, blockchain time is not changed by such runs
+    now?: number
+}
+
 type ExtendsContractProvider<T> = T extends ContractProvider ? true : (T extends SandboxContractProvider ? true : false);
 
 export const SANDBOX_CONTRACT_SYMBOL = Symbol('SandboxContract')
@@ -143,6 +271,25 @@ function blockchainConfigToBase64(config: BlockchainConfig | undefined): string
     }
 }
 
+function copyAccountStates(states: Map<string, AccountStateRecord[]>) {
+    return new Map(Array.from(states.entries()).map(([key, records]) => [key, [...records]]))
+}
+
+function addHook<T>(hooks: T[], hook: T): () => void {
+    hooks.push(hook)
+    return () => {
+        const idx = hooks.indexOf(hook)
+        if (idx !== -1) {
+            hooks.splice(idx, 1)
+        }
+    }
+}
+
+type AccountStateRecord = {
+    lt: bigint
+    contract: SmartContract
+}
+
 export type BlockchainSnapshot = {
     contracts: SmartContractSnapshot[]
     networkConfig: string
@@ -150,7 +297,16 @@ export type BlockchainSnapshot = {
     time?: number
     verbosity: LogsVerbosity
     libs?: Cell
+    libraries?: LibrarySnapshot[]
     nextCreateWalletIndex: number
+    clock?: ClockPolicy
+    randomSeed?: RandomSeedPolicy
+    produceBlocks?: boolean
+    prevBlocks?: PrevBlocksInfo
+    specialAccounts?: SpecialAccount[]
+    transactionHistory?: TransactionHistory
+    recordStates?: boolean
+    accountStates?: Map<string, AccountStateRecord[]>
 }
 
 export class Blockchain {
@@ -165,11 +321,32 @@ export class Blockchain {
         vmLogs: 'none',
         debugLogs: true,
     }
-    protected globalLibs?: Cell
+    protected libraries = new LibraryRegistry()
+    protected resolver?: LibraryResolver
+    protected coverageCollector?: Coverage
+    protected debugInfoRegistry = new DebugInfoRegistry()
     protected lock = new AsyncLock()
     protected contractFetches = new Map<string, Promise<SmartContract>>()
     protected nextCreateWalletIndex = 0
     protected shouldRecordStorage = false
+    protected shouldProduceBlocks = false
+    protected prevBlocksInfo?: PrevBlocksInfo
+    protected blockTransactions: BlockchainTransaction[] = []
+    protected messageQueueOrder: MessageQueueOrder = 'fifo'
+    protected clockPolicy: ClockPolicy = { type: 'fixed' }
+    protected randomSeedPolicy: RandomSeedPolicy = { type: 'zero' }
+    protected specialAccountsMap = new Map<string, SpecialAccount>()
+    protected messageDelays = new WeakMap<PendingMessage, number>()
+    protected specialTickTockMessages = new WeakSet<PendingMessage>()
+    protected transactionLimits: TransactionLimits = {}
+    protected history?: TransactionHistory
+    protected shouldRecordStates = false
+    protected accountStates = new Map<string, AccountStateRecord[]>()
+    protected hooks: { beforeMessage: BeforeMessageHook[], afterTransaction: AfterTransactionHook[], externalOut: ExternalOutHook[] } = {
+        beforeMessage: [],
+        afterTransaction: [],
+        externalOut: [],
+    }
 
     readonly executor: IExecutor
 
@@ -188,8 +365,17 @@ export class Blockchain {
             lt: this.currentLt,
             time: this.currentTime,
             verbosity: { ...this.logsVerbosity },
-            libs: this.globalLibs,
+            libs: this.libraries.libs,
+            libraries: this.libraries.snapshot(),
             nextCreateWalletIndex: this.nextCreateWalletIndex,
+            clock: { ...this.clockPolicy },
+            randomSeed: { ...this.randomSeedPolicy },
+            produceBlocks: this.shouldProduceBlocks,
+            prevBlocks: this.prevBlocksInfo,
+            specialAccounts: this.specialAccounts,
+            transactionHistory: this.history?.clone(),
+            recordStates: this.shouldRecordStates,
+            accountStates: copyAccountStates(this.accountStates),
         }
     }
 
@@ -210,8 +396,76 @@ export class Blockchain {
         this.currentLt = snapshot.lt
         this.currentTime = snapshot.time
         this.logsVerbosity = { ...snapshot.verbosity }
-        this.globalLibs = snapshot.libs
+        if (snapshot.libraries !== undefined) {
+            this.libraries = LibraryRegistry.fromSnapshot(snapshot.libraries)
+        } else {
+            this.libraries = new LibraryRegistry()
+            this.libraries.libs = snapshot.libs
+        }
         this.nextCreateWalletIndex = snapshot.nextCreateWalletIndex
+        this.clockPolicy = snapshot.clock === undefined ? { type: 'fixed' } : { ...snapshot.clock }
+        this.randomSeedPolicy = snapshot.randomSeed === undefined ? { type: 'zero' } : { ...snapshot.randomSeed }
+        this.shouldProduceBlocks = snapshot.produceBlocks ?? false
+        this.prevBlocksInfo = snapshot.prevBlocks
+        this.blockTransactions = []
+        this.specialAccountsMap = new Map((snapshot.specialAccounts ?? []).map(a => [a.address.toRawString(), { address: a.address, which: [...a.which] }]))
+        this.history = snapshot.transactionHistory?.clone()
+        this.shouldRecordStates = snapshot.recordStates ?? false
+        this.accountStates = copyAccountStates(snapshot.accountStates ?? new Map())
+    }
+
+    /**
+     * Creates an independent blockchain that starts from the current state of this one. The fork shares the executor, and its storage copies
+     * contracts from this blockchain only when they are first accessed, so forking is cheap regardless of the number of contracts.
+     * Settings, pending messages and hooks are copied to the fork.
+     * ```ts
+     * const fork = blockchain.fork();
+     * await fork.sendMessage(withdraw); // does not affect blockchain
+     * expect(await fork.getContract(vault.address)).not.toEqual(await blockchain.getContract(vault.address));
+     * ```
+     */
+    fork(): Blockchain {
+        const fork = new Blockchain({
+            executor: this.executor,
+            storage: new ForkedBlockchainStorage(this.storage, this),
+            queueOrder: this.messageQueueOrder,
+            clock: this.clockPolicy,
+            randomSeed: this.randomSeedPolicy,
+            limits: this.transactionLimits,
+            libraryResolver: this.resolver,
+            coverage: this.coverageCollector,
+        })
+        fork.networkConfig = this.networkConfig
+        fork.currentLt = this.currentLt
+        fork.currentTime = this.currentTime
+        fork.logsVerbosity = { ...this.logsVerbosity }
+        fork.libraries = this.libraries.clone()
+        fork.debugInfoRegistry = this.debugInfoRegistry
+        fork.nextCreateWalletIndex = this.nextCreateWalletIndex
+        fork.shouldRecordStorage = this.shouldRecordStorage
+        fork.shouldProduceBlocks = this.shouldProduceBlocks
+        fork.prevBlocksInfo = this.prevBlocksInfo
+        fork.blockTransactions = [...this.blockTransactions]
+        fork.specialAccountsMap = new Map(this.specialAccounts.map(a => [a.address.toRawString(), a]))
+        fork.history = this.history?.clone()
+        fork.shouldRecordStates = this.shouldRecordStates
+        fork.accountStates = copyAccountStates(this.accountStates)
+        fork.messageQueue = [...this.messageQueue]
+        for (const message of this.messageQueue) {
+            const delay = this.messageDelays.get(message)
+            if (delay !== undefined) {
+                fork.messageDelays.set(message, delay)
+            }
+            if (this.specialTickTockMessages.has(message)) {
+                fork.specialTickTockMessages.add(message)
+            }
+        }
+        fork.hooks = {
+            beforeMessage: [...this.hooks.beforeMessage],
+            afterTransaction: [...this.hooks.afterTransaction],
+            externalOut: [...this.hooks.externalOut],
+        }
+        return fork
     }
 
     get recordStorage() {
@@ -222,6 +476,194 @@ export class Blockchain {
         this.shouldRecordStorage = v
     }
 
+    get recordStates() {
+        return this.shouldRecordStates
+    }
+
+    /**
+     * If set, state of every account is retained after each of its transactions, and can be queried with {@link getContractAt}.
+     * Disabling the flag drops retained states.
+     */
+    set recordStates(v: boolean) {
+        this.shouldRecordStates = v
+        if (!v) {
+            this.accountStates.clear()
+        }
+    }
+
+    /**
+     * Returns contract state as it was after the last transaction on it with logical time not greater than `lt`. Requires {@link recordStates} to be set.
+     * Returned contract is a copy, running transactions on it does not affect the blockchain.
+     * ```ts
+     * blockchain.recordStates = true;
+     * const res = await blockchain.sendMessage(message);
+     * const tx = res.transactions[7];
+     * const before = await blockchain.getContractAt(wallet.address, tx.lt - 1n);
+     * const data = await before.get('get_wallet_data');
+     * ```
+     *
+     * @param address Address of contract to get
+     * @param lt Logical time
+     * @throws {Error} If state at given lt was not retained
+     */
+    async getContractAt(address: Address, lt: bigint): Promise<SmartContract> {
+        if (!this.shouldRecordStates) {
+            throw new Error('Account states are not recorded, set `blockchain.recordStates` to record them')
+        }
+        const records = this.accountStates.get(address.toRawString()) ?? []
+        for (let i = records.length - 1; i >= 0; i--) {
+            if (records[i].lt <= lt) {
+                return records[i].contract.clone(this)
+            }
+        }
+        if (records.length === 0) {
+            // No transactions since states are recorded, so current state is the one at any lt after the last transaction
+            const contract = await this.getContract(address)
+            if (contract.lastTransactionLt <= lt) {
+                return contract.clone(this)
+            }
+        }
+        throw new Error(`State of account ${address} at lt ${lt} was not recorded`)
+    }
+
+    get produceBlocks() {
+        return this.shouldProduceBlocks
+    }
+
+    /**
+     * If set, transactions are grouped into emulated blocks: every time the message queue is drained, the transactions processed since the previous block
+     * are committed to a new masterchain block (and to shard blocks for other workchains). Produced blocks are returned by `PREVMCBLOCKS` and
+     * `PREVBLOCKSINFOTUPLE`, and every transaction records the block it landed in.
+     * ```ts
+     * blockchain.produceBlocks = true;
+     * const res = await blockchain.sendMessage(message);
+     * console.log(res.transactions[0].block?.seqno);
+     * ```
+     */
+    set produceBlocks(v: boolean) {
+        this.shouldProduceBlocks = v
+        if (v && this.prevBlocksInfo === undefined) {
+            this.prevBlocksInfo = this.createGenesisBlocks()
+        }
+    }
+
+    /**
+     * @returns Info about previous blocks available to contracts, undefined if there is none
+     */
+    get prevBlocks() {
+        return this.prevBlocksInfo
+    }
+
+    /**
+     * Sets info about previous blocks available to contracts via `PREVMCBLOCKS` and `PREVKEYBLOCK`.
+     * If {@link produceBlocks} is set, new blocks are produced on top of these ones.
+     *
+     * @param value Previous blocks info, at most 16 masterchain blocks, newest first
+     */
+    set prevBlocks(value: PrevBlocksInfo | undefined) {
+        if (value !== undefined && value.lastMcBlocks.length > MAX_PREV_MC_BLOCKS) {
+            throw new Error(`At most ${MAX_PREV_MC_BLOCKS} previous masterchain blocks are allowed`)
+        }
+        this.prevBlocksInfo = value
+    }
+
+    /**
+     * @returns Order in which pending messages are delivered
+     */
+    get queueOrder() {
+        return this.messageQueueOrder
+    }
+
+    /**
+     * Updates order in which pending messages are delivered. See {@link MessageQueueOrder} for available orders.
+     * ```ts
+     * blockchain.queueOrder = 'depth-first';
+     * blockchain.queueOrder = { type: 'random', seed: 42 };
+     * ```
+     */
+    set queueOrder(order: MessageQueueOrder) {
+        this.messageQueueOrder = order
+    }
+
+    /**
+     * @returns Params of transaction history, undefined if transactions are not recorded
+     */
+    get transactionHistory(): TransactionHistoryParams | undefined {
+        return this.history?.params
+    }
+
+    /**
+     * Enables or disables recording of transaction history. Recorded transactions are returned by {@link getTransactions},
+     * {@link getTransaction}, {@link getTransactionByMessageHash} and by `getTransactions` of contract providers.
+     * Changing params clears recorded history.
+     * ```ts
+     * blockchain.transactionHistory = {}; // keep all transactions
+     * blockchain.transactionHistory = { maxTransactionsPerAccount: 100 };
+     * blockchain.transactionHistory = undefined; // disable
+     * ```
+     */
+    set transactionHistory(params: TransactionHistoryParams | undefined) {
+        this.history = params === undefined ? undefined : new TransactionHistory({ ...params })
+    }
+
+    protected requireHistory(): TransactionHistory {
+        if (this.history === undefined) {
+            throw new Error('Transaction history is not recorded, set `blockchain.transactionHistory` to record it')
+        }
+        return this.history
+    }
+
+    /**
+     * Pages through recorded transactions of the account like a lite server does.
+     * ```ts
+     * const { transactions } = await blockchain.sendMessage(message);
+     * const last = transactions[transactions.length - 1];
+     * const txs = await blockchain.getTransactions(address, last.lt, last.hash(), 10);
+     * ```
+     *
+     * @param address Address of the account
+     * @param lt Logical time of the first returned transaction
+     * @param hash Hash of the first returned transaction
+     * @param limit Maximum number of transactions to return
+     * @returns Transactions starting from the one with given lt and hash, newest first
+     */
+    async getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): Promise<BlockchainTransaction[]> {
+        return this.requireHistory().getTransactions(address, lt, hash, limit)
+    }
+
+    /**
+     * @param hash Hash of the transaction
+     * @returns Recorded transaction with given hash
+     */
+    getTransaction(hash: Buffer): BlockchainTransaction | undefined {
+        return this.requireHistory().getTransaction(hash)
+    }
+
+    /**
+     * @param hash Hash of the inbound message cell
+     * @returns Recorded transaction that processed the message
+     */
+    getTransactionByMessageHash(hash: Buffer): BlockchainTransaction | undefined {
+        return this.requireHistory().getTransactionByMessageHash(hash)
+    }
+
+    /**
+     * @returns Limits applied to every call processing the message queue
+     */
+    get limits() {
+        return this.transactionLimits
+    }
+
+    /**
+     * Updates limits applied to every call processing the message queue. See {@link TransactionLimits} for available limits.
+     * ```ts
+     * blockchain.limits = { maxTransactions: 1000, maxDepth: 50 };
+     * ```
+     */
+    set limits(limits: TransactionLimits) {
+        this.transactionLimits = { ...limits }
+    }
+
     /**
      * @returns Current time in blockchain
      */
@@ -237,6 +679,58 @@ export class Blockchain {
         this.currentTime = now
     }
 
+    /**
+     * Moves current time in blockchain forward. Storage fees for the skipped time are charged in the storage phase of the next transaction on every account,
+     * so accounts that can not pay them get frozen or deleted, like on a real network.
+     * ```ts
+     * blockchain.now = 1700000000;
+     * blockchain.advanceTime(365 * 24 * 60 * 60);
+     * ```
+     *
+     * @param seconds Number of seconds to move forward
+     * @returns New current time
+     */
+    advanceTime(seconds: number): number {
+        this.currentTime = (this.currentTime ?? Math.floor(Date.now() / 1000)) + seconds
+        return this.currentTime
+    }
+
+    /**
+     * @returns Policy describing how time passes in blockchain
+     */
+    get clock() {
+        return this.clockPolicy
+    }
+
+    /**
+     * Updates policy describing how time passes in blockchain. See {@link ClockPolicy} for available policies.
+     * ```ts
+     * blockchain.now = 1700000000;
+     * blockchain.clock = { type: 'per-hop', delay: 5 };
+     * ```
+     */
+    set clock(policy: ClockPolicy) {
+        this.clockPolicy = { ...policy }
+    }
+
+    /**
+     * @returns Policy describing random seeds of transactions
+     */
+    get randomSeed() {
+        return this.randomSeedPolicy
+    }
+
+    /**
+     * Updates policy describing random seeds of transactions. See {@link RandomSeedPolicy} for available policies.
+     * Seed used by every transaction is recorded in {@link BlockchainTransaction.randomSeed}, so a transaction can be replayed with the same seed.
+     * ```ts
+     * blockchain.randomSeed = { type: 'derived', seed: Buffer.from('lottery test') };
+     * ```
+     */
+    set randomSeed(policy: RandomSeedPolicy) {
+        this.randomSeedPolicy = { ...policy }
+    }
+
     /**
      * @returns Current logical time in blockchain
      */
@@ -244,10 +738,27 @@ export class Blockchain {
         return this.currentLt
     }
 
-    protected constructor(opts: { executor: IExecutor, config?: BlockchainConfig, storage: BlockchainStorage }) {
+    protected constructor(opts: { executor: IExecutor, config?: BlockchainConfig, storage: BlockchainStorage, queueOrder?: MessageQueueOrder, clock?: ClockPolicy, randomSeed?: RandomSeedPolicy, limits?: TransactionLimits, transactionHistory?: TransactionHistoryParams, libraryResolver?: LibraryResolver, coverage?: Coverage }) {
         this.networkConfig = blockchainConfigToBase64(opts.config)
         this.executor = opts.executor
         this.storage = opts.storage
+        if (opts.queueOrder !== undefined) {
+            this.queueOrder = opts.queueOrder
+        }
+        if (opts.clock !== undefined) {
+            this.clock = opts.clock
+        }
+        if (opts.randomSeed !== undefined) {
+            this.randomSeed = opts.randomSeed
+        }
+        if (opts.limits !== undefined) {
+            this.limits = opts.limits
+        }
+        if (opts.transactionHistory !== undefined) {
+            this.transactionHistory = opts.transactionHistory
+        }
+        this.resolver = opts.libraryResolver
+        this.coverageCollector = opts.coverage
     }
 
     /**
@@ -280,11 +791,129 @@ export class Blockchain {
      * @param params Optional params
      * @returns Result of queue processing
      */
-    async sendMessage(message: Message | Cell, params?: MessageParams): Promise<SendMessageResult> {
+    async sendMessage(message: Message | Cell, params?: SendMessageParams): Promise<SendMessageResult> {
         await this.pushMessage(message)
         return await this.runQueue(params)
     }
 
+    /**
+     * Emulates the result of sending several messages to this Blockchain at once. All messages are pushed to the queue before the first one is delivered,
+     * so their transaction chains interleave according to the queue order.
+     * ```ts
+     * const result = await blockchain.sendMessages([withdraw1, withdraw2], { queueOrder: 'depth-first' });
+     * ```
+     *
+     * @param messages Messages to sent
+     * @param params Optional params
+     * @returns Result of queue processing
+     */
+    async sendMessages(messages: (Message | Cell)[], params?: SendMessageParams): Promise<SendMessageResult> {
+        for (const message of messages) {
+            await this.pushMessage(message)
+        }
+        return await this.runQueue(params)
+    }
+
+    /**
+     * Sends the message like {@link sendMessage} with `'vm_logs_gas'` verbosity and profiles gas used by every transaction of the chain. VM logs are not printed.
+     * ```ts
+     * const { transactions, profiler } = await blockchain.profileMessage(message);
+     * profiler.printTable('instruction', 10);
+     * ```
+     *
+     * @param message Message to sent
+     * @param params Optional params
+     * @returns Result of queue processing and gas profile of its transactions
+     */
+    async profileMessage(message: Message | Cell, params?: SendMessageParams): Promise<SendMessageResult & { profiler: GasProfiler }> {
+        const result = await this.sendMessage(message, { ...params, verbosity: { vmLogs: 'vm_logs_gas', print: false } })
+        const profiler = new GasProfiler()
+        result.transactions.forEach(tx => profiler.addTransaction(tx))
+        return { ...result, profiler }
+    }
+
+    /**
+     * Runs messages sent at the same time in every order their transaction chains can interleave in, and checks the final state of each one.
+     * Blockchain state is restored after every interleaving and once exploration is finished.
+     * ```ts
+     * const report = await blockchain.exploreInterleavings([withdraw1, withdraw2, deposit], async (blockchain) => {
+     *     return (await vault.getTotalSupply()) >= 0n;
+     * }, { maxDepth: 6 });
+     * expect(report.failures).toHaveLength(0);
+     * ```
+     * Failed interleavings can be replayed using {@link scheduleQueueStrategy}.
+     *
+     * @param messages Messages to sent
+     * @param check Predicate run after every interleaving, returning `false` or throwing marks the interleaving as failed
+     * @param params Optional params, see {@link ExploreInterleavingsParams}
+     * @returns Report with failed interleavings
+     */
+    async exploreInterleavings(messages: (Message | Cell)[], check: InterleavingCheck, params?: ExploreInterleavingsParams): Promise<InterleavingsReport> {
+        const maxDepth = params?.maxDepth ?? 8
+        const maxSchedules = params?.maxSchedules ?? 1000
+        const runParams: SendMessageParams = {
+            now: params?.now ?? this.now ?? Math.floor(Date.now() / 1000),
+            randomSeed: params?.randomSeed,
+            ignoreChksig: params?.ignoreChksig,
+            verbosity: params?.verbosity,
+            limits: params?.limits,
+        }
+
+        const snapshot = this.snapshot()
+        const failures: InterleavingFailure[] = []
+        let explored = 0
+        let schedule: number[] | undefined = []
+
+        try {
+            while (schedule !== undefined && explored < maxSchedules) {
+                await this.loadFrom(snapshot)
+                this.messageQueue = []
+
+                const strategy = scheduleQueueStrategy(schedule)
+                // Transactions are collected one by one to keep the partial chain if emulation throws
+                const transactions: BlockchainTransaction[] = []
+                let failure: InterleavingFailure | undefined = undefined
+                try {
+                    for (const message of messages) {
+                        await this.pushMessage(message)
+                    }
+                    for await (const tx of this.txIter(true, { ...runParams, queueOrder: strategy })) {
+                        transactions.push(tx)
+                    }
+                    const result: SendMessageResult = {
+                        transactions,
+                        events: transactions.map(tx => tx.events).flat(),
+                        externals: transactions.map(tx => tx.externals).flat(),
+                    }
+                    if (await check(this, result) === false) {
+                        failure = { schedule: strategy.taken, transactions }
+                    }
+                } catch (e) {
+                    failure = { schedule: strategy.taken, transactions, error: e }
+                }
+                explored++
+
+                if (failure !== undefined) {
+                    failures.push(failure)
+                    if (params?.stopOnFailure) {
+                        break
+                    }
+                }
+
+                schedule = nextSchedule(strategy.taken, strategy.branching, maxDepth)
+            }
+        } finally {
+            await this.loadFrom(snapshot)
+            this.messageQueue = []
+        }
+
+        return {
+            explored,
+            complete: schedule === undefined,
+            failures,
+        }
+    }
+
     /**
      * Starts emulating the result of sending a message to this Blockchain (refer to {@link sendMessage}). Each iterator call emulates one transaction, so the whole chain is not emulated immediately, unlike in {@link sendMessage}.
      * ```ts
@@ -299,59 +928,315 @@ export class Blockchain {
      * }
      * ```
      *
-     * @param message Message to sent
-     * @param params Optional params
-     * @returns Async iterable of {@link BlockchainTransaction}
+     * @param message Message to sent
+     * @param params Optional params
+     * @returns Async iterable of {@link BlockchainTransaction}
+     */
+    async sendMessageIter(message: Message | Cell, params?: SendMessageParams): Promise<AsyncIterator<BlockchainTransaction> & AsyncIterable<BlockchainTransaction>> {
+        await this.pushMessage(message)
+        // Iterable will lock on per tx basis
+        return await this.txIter(true, params)
+    }
+
+    /**
+     * Emulates sending a message to this Blockchain (refer to {@link sendMessage}) until a transaction matches the predicate, and pauses there.
+     * ```ts
+     * const breakpoint = await blockchain.sendMessageUntil(message, (tx) => {
+     *     return tx.inMessage?.info.dest instanceof Address && tx.inMessage.info.dest.equals(pool.address)
+     *         && tx.description.type === 'generic' && tx.description.aborted;
+     * });
+     * console.log(breakpoint.transaction, await pool.getReserves());
+     * await breakpoint.resume(); // pause on the next matching transaction
+     * const result = await breakpoint.finish();
+     * ```
+     *
+     * @param message Message to sent
+     * @param predicate Predicate checked after every transaction
+     * @param params Optional params
+     * @returns {@link Breakpoint} paused on the first matching transaction, or finished if no transaction matched
+     */
+    async sendMessageUntil(message: Message | Cell, predicate: BreakpointPredicate, params?: SendMessageParams): Promise<Breakpoint> {
+        const breakpoint = new Breakpoint(await this.sendMessageIter(message, params), predicate)
+        await breakpoint.resume()
+        return breakpoint
+    }
+
+    /**
+     * Runs tick or tock transaction.
+     * ```ts
+     * let res = await blockchain.runTickTock(address, 'tock');
+     * ```
+     *
+     * @param on Address or addresses to run tick-tock
+     * @param which Type of transaction (tick or tock)
+     * @param [params] Params to run tick tock transaction
+     * @returns Result of tick-tock transaction
+     */
+    async runTickTock(on: Address | Address[], which: TickOrTock, params?: SendMessageParams): Promise<SendMessageResult> {
+        for (const addr of (Array.isArray(on) ? on : [on])) {
+            await this.pushTickTock(addr, which)
+        }
+        return await this.runQueue(params)
+    }
+
+    /**
+     * Runs get method on contract.
+     * ```ts
+     * const { stackReader } = await blockchain.runGetMethod(address, 'get_now', [], {
+     *     now: 2,
+     * });
+     * const now = res.stackReader.readNumber();
+     * ```
+     *
+     * @param address Address or addresses to run get method
+     * @param method MethodId or method name to run
+     * @param stack Method params
+     * @param [params] Params to run get method
+     * @returns Result of get method
+     */
+    async runGetMethod(address: Address, method: number | string, stack: TupleItem[] = [], params?: GetMethodParams) {
+        return await (await this.getContract(address)).get(method, stack, {
+            now: this.now,
+            ...params,
+        })
+    }
+
+    /**
+     * Runs get method like {@link runGetMethod} with `'vm_logs_gas'` verbosity and profiles gas used by it. VM logs are not printed.
+     * ```ts
+     * const { profiler } = await blockchain.profileGetMethod(address, 'get_wallet_data');
+     * console.log(profiler.collapsedStacks());
+     * ```
+     *
+     * @returns Result of get method and its gas profile
+     */
+    async profileGetMethod(address: Address, method: number | string, stack: TupleItem[] = [], params?: GetMethodParams) {
+        const result = await this.runGetMethod(address, method, stack, { ...params, verbosity: { vmLogs: 'vm_logs_gas', print: false } })
+        const profiler = new GasProfiler()
+        profiler.addGetMethod(address, method, result)
+        return { ...result, profiler }
+    }
+
+    /**
+     * Registers hook called before every message is delivered, including messages sent by contracts and by opened contract wrappers.
+     * Hooks are called in the order they were registered, each one receives the message returned by the previous one.
+     * ```ts
+     * const unsubscribe = blockchain.onBeforeMessage((message) => {
+     *     if (message.info.dest instanceof Address && message.info.dest.equals(oracle.address)) {
+     *         return 'veto'; // simulate unavailable oracle
+     *     }
+     * });
+     * ```
+     *
+     * @param hook Hook returning `'veto'` to drop the message, or a message to deliver instead
+     * @returns Function that unregisters the hook
+     */
+    onBeforeMessage(hook: BeforeMessageHook): () => void {
+        return addHook(this.hooks.beforeMessage, hook)
+    }
+
+    /**
+     * Registers hook called after every transaction, including tick-tock transactions. Errors thrown by hooks abort message processing,
+     * which makes them suitable for invariant checks.
+     * ```ts
+     * blockchain.onAfterTransaction((tx, { before, after }) => {
+     *     expect(after.account?.storage.balance.coins ?? 0n).toBeGreaterThan(0n);
+     * });
+     * ```
+     *
+     * @param hook Hook receiving the transaction and the state of the account before and after it
+     * @returns Function that unregisters the hook
+     */
+    onAfterTransaction(hook: AfterTransactionHook): () => void {
+        return addHook(this.hooks.afterTransaction, hook)
+    }
+
+    /**
+     * Registers hook called for every external out message.
+     * ```ts
+     * blockchain.onExternalOut((external) => logs.push(external.body));
+     * ```
+     *
+     * @param hook Hook receiving the external out message and the transaction that sent it
+     * @returns Function that unregisters the hook
+     */
+    onExternalOut(hook: ExternalOutHook): () => void {
+        return addHook(this.hooks.externalOut, hook)
+    }
+
+    /**
+     * @returns Messages and tick-tock transactions waiting to be processed, in the order they were pushed.
+     * Returned objects identify pending messages in {@link dropPendingMessage}, {@link delayPendingMessage} and other methods manipulating the queue.
+     * ```ts
+     * const iter = await blockchain.sendMessageIter(message);
+     * await iter.next();
+     * const [bounce] = blockchain.pendingMessages;
+     * blockchain.dropPendingMessage(bounce); // simulate lost message
+     * for await (const tx of iter) {}
+     * ```
+     */
+    get pendingMessages(): readonly PendingMessage[] {
+        return [...this.messageQueue]
+    }
+
+    protected pendingMessageIndex(message: PendingMessage): number {
+        const idx = this.messageQueue.indexOf(message)
+        if (idx === -1) {
+            throw new Error('Message is not pending')
+        }
+        return idx
+    }
+
+    /**
+     * Removes message from the queue, so it is never delivered.
+     *
+     * @param message Pending message, see {@link pendingMessages}
+     */
+    dropPendingMessage(message: PendingMessage) {
+        this.messageQueue.splice(this.pendingMessageIndex(message), 1)
+        this.messageDelays.delete(message)
+    }
+
+    /**
+     * Pushes a copy of the message to the end of the queue, so it is delivered twice.
+     *
+     * @param message Pending message, see {@link pendingMessages}
+     * @returns Copy of the message
+     */
+    duplicatePendingMessage(message: PendingMessage): PendingMessage {
+        this.pendingMessageIndex(message)
+        const copy: PendingMessage = { ...message }
+        this.messageQueue.push(copy)
+        return copy
+    }
+
+    /**
+     * Holds message back until `deliveries` other messages are delivered, regardless of the queue order.
+     * If only delayed messages are left in the queue, they are delivered anyway.
+     *
+     * @param message Pending message, see {@link pendingMessages}
+     * @param deliveries Number of messages to deliver first
+     */
+    delayPendingMessage(message: PendingMessage, deliveries: number = 1) {
+        this.pendingMessageIndex(message)
+        if (deliveries > 0) {
+            this.messageDelays.set(message, deliveries)
+        } else {
+            this.messageDelays.delete(message)
+        }
+    }
+
+    /**
+     * Moves message to another position in the queue.
+     *
+     * @param message Pending message, see {@link pendingMessages}
+     * @param index New position of the message
+     */
+    movePendingMessage(message: PendingMessage, index: number) {
+        if (!Number.isInteger(index) || index < 0 || index >= this.messageQueue.length) {
+            throw new Error(`Invalid index ${index} for queue of length ${this.messageQueue.length}`)
+        }
+        this.messageQueue.splice(this.pendingMessageIndex(message), 1)
+        this.messageQueue.splice(index, 0, message)
+    }
+
+    /**
+     * Replaces message in the queue with an updated one, keeping its position.
+     * ```ts
+     * blockchain.updatePendingMessage(pending, (message) => ({
+     *     ...message,
+     *     body: beginCell().storeUint(0xdeadbeef, 32).endCell(),
+     * }));
+     * ```
+     *
+     * @param message Pending message, see {@link pendingMessages}
+     * @param update Function returning the message to deliver instead
+     * @returns Updated pending message
      */
-    async sendMessageIter(message: Message | Cell, params?: MessageParams): Promise<AsyncIterator<BlockchainTransaction> & AsyncIterable<BlockchainTransaction>> {
-        params = {
-            now: this.now,
-            ...params,
+    updatePendingMessage(message: PendingMessage, update: (message: Message) => Message): PendingMessage {
+        const idx = this.pendingMessageIndex(message)
+        if (message.type !== 'message') {
+            throw new Error('Cannot update tick-tock transaction')
+        }
+        const updated: PendingMessage = {
+            ...update(message),
+            type: 'message',
+            parentTransaction: message.parentTransaction,
+        }
+        if (updated.info.type === 'external-out') {
+            throw new Error('Cannot send external out message')
         }
+        this.messageQueue[idx] = updated
+        const delay = this.messageDelays.get(message)
+        if (delay !== undefined) {
+            this.messageDelays.set(updated, delay)
+        }
+        return updated
+    }
 
-        await this.pushMessage(message)
-        // Iterable will lock on per tx basis
-        return await this.txIter(true, params)
+    /**
+     * @returns Accounts that run tick-tock transactions automatically
+     */
+    get specialAccounts(): SpecialAccount[] {
+        return [...this.specialAccountsMap.values()].map(a => ({ address: a.address, which: [...a.which] }))
     }
 
     /**
-     * Runs tick or tock transaction.
+     * Registers special account. Every time a batch of messages is sent (e.g. by {@link sendMessage} or by a contract wrapper method),
+     * tick transactions are run on active special accounts before the first message is delivered, and tock transactions are run once the queue is drained,
+     * like masterchain does in every block. Tick-tock transactions are included in the result of the batch.
      * ```ts
-     * let res = await blockchain.runTickTock(address, 'tock');
+     * blockchain.registerSpecialAccount(oracle.address, ['tock']);
+     * const res = await blockchain.sendMessage(message); // includes tock transaction on oracle
      * ```
      *
-     * @param on Address or addresses to run tick-tock
-     * @param which Type of transaction (tick or tock)
-     * @param [params] Params to run tick tock transaction
-     * @returns Result of tick-tock transaction
+     * @param address Address of the account
+     * @param which Transactions to run, both tick and tock by default
      */
-    async runTickTock(on: Address | Address[], which: TickOrTock, params?: MessageParams): Promise<SendMessageResult> {
-        for (const addr of (Array.isArray(on) ? on : [on])) {
-            await this.pushTickTock(addr, which)
-        }
-        return await this.runQueue(params)
+    registerSpecialAccount(address: Address, which: TickOrTock[] = ['tick', 'tock']) {
+        this.specialAccountsMap.set(address.toRawString(), { address, which: [...which] })
     }
 
     /**
-     * Runs get method on contract.
+     * Stops running tick-tock transactions on the account automatically.
+     *
+     * @param address Address of the account
+     */
+    unregisterSpecialAccount(address: Address) {
+        this.specialAccountsMap.delete(address.toRawString())
+    }
+
+    /**
+     * Registers active accounts listed in config param 31 as special accounts, using tick and tock flags from their state.
+     * Accounts that are not active or have neither flag set are skipped.
      * ```ts
-     * const { stackReader } = await blockchain.runGetMethod(address, 'get_now', [], {
-     *     now: 2,
-     * });
-     * const now = res.stackReader.readNumber();
+     * const blockchain = await Blockchain.create({ storage: new RemoteBlockchainStorage(wrapTonClient4ForRemote(client)) });
+     * await blockchain.registerSpecialAccountsFromConfig(); // elector, config and other fundamental contracts
      * ```
      *
-     * @param address Address or addresses to run get method
-     * @param method MethodId or method name to run
-     * @param stack Method params
-     * @param [params] Params to run get method
-     * @returns Result of get method
+     * @returns Registered accounts
      */
-    async runGetMethod(address: Address, method: number | string, stack: TupleItem[] = [], params?: GetMethodParams) {
-        return await (await this.getContract(address)).get(method, stack, {
-            now: this.now,
-            ...params,
-        })
+    async registerSpecialAccountsFromConfig(): Promise<SpecialAccount[]> {
+        const registered: SpecialAccount[] = []
+        for (const address of loadFundamentalAddresses(this.config)) {
+            const state = (await this.getContract(address)).accountState
+            if (state?.type !== 'active') {
+                continue
+            }
+            const which: TickOrTock[] = []
+            if (state.state.special?.tick) {
+                which.push('tick')
+            }
+            if (state.state.special?.tock) {
+                which.push('tock')
+            }
+            if (which.length === 0) {
+                continue
+            }
+            this.registerSpecialAccount(address, which)
+            registered.push({ address, which })
+        }
+        return registered
     }
 
     protected async pushMessage(message: Message | Cell) {
@@ -377,7 +1262,7 @@ export class Blockchain {
         })
     }
 
-    protected async runQueue(params?: MessageParams): Promise<SendMessageResult>  {
+    protected async runQueue(params?: SendMessageParams): Promise<SendMessageResult>  {
         const txes = await this.processQueue(params)
         return {
             transactions: txes,
@@ -386,84 +1271,390 @@ export class Blockchain {
         }
     }
 
-    protected txIter(needsLocking: boolean, params?: MessageParams): AsyncIterator<BlockchainTransaction> & AsyncIterable<BlockchainTransaction> {
-        const it = { next: () => this.processTx(needsLocking, params), [Symbol.asyncIterator]() { return it; } }
+    protected txIter(needsLocking: boolean, params?: SendMessageParams): AsyncIterator<BlockchainTransaction> & AsyncIterable<BlockchainTransaction> {
+        const run: QueueRun = {
+            params: {
+                now: this.now,
+                ...params,
+            },
+            // Every run gets a fresh strategy, so seeded orders do not depend on previous runs
+            strategy: createMessageQueueStrategy(params?.queueOrder ?? this.messageQueueOrder),
+            tickTock: 'tick',
+            limits: { ...this.transactionLimits, ...params?.limits },
+            transactions: [],
+            addressTransactions: new Map(),
+            now: this.clockPolicy.type === 'auto-increment' ? params?.now : undefined,
+        }
+        const it = { next: () => this.processTx(needsLocking, run), [Symbol.asyncIterator]() { return it; } }
         return it;
     }
 
-    protected async processInternal(params?: MessageParams): Promise<IteratorResult<BlockchainTransaction>> {
-        let result: BlockchainTransaction | undefined = undefined
-        let done = this.messageQueue.length == 0
-        while (!done) {
-            const message = this.messageQueue.shift()!
-
-            let tx: SmartContractTransaction
-            if (message.type === 'message') {
-                if (message.info.type === 'external-out') {
-                    done = this.messageQueue.length == 0
-                    continue
-                }
+    protected takeNextMessage(strategy: MessageQueueStrategy): PendingMessage {
+        const ready = this.messageQueue.filter(m => this.messageDelays.get(m) === undefined)
+        const candidates = ready.length > 0 ? ready : this.messageQueue
+
+        // Tick-tock transactions of special accounts are not triggered by messages, so they run before any pending message is delivered.
+        // Tick-tocks queued with runTickTock are ordered by the strategy like messages
+        let message = candidates.find(m => this.specialTickTockMessages.has(m))
+        if (message === undefined) {
+            const idx = strategy.next(candidates)
+            if (!Number.isInteger(idx) || idx < 0 || idx >= candidates.length) {
+                throw new Error(`Message queue strategy returned invalid index ${idx} for queue of length ${candidates.length}`)
+            }
+            message = candidates[idx]
+        }
 
-                this.currentLt += LT_ALIGN
-                tx = await (await this.getContract(message.info.dest)).receiveMessage(message, params)
+        this.messageQueue.splice(this.messageQueue.indexOf(message), 1)
+        this.messageDelays.delete(message)
+        for (const m of this.messageQueue) {
+            const delay = this.messageDelays.get(m)
+            if (delay === undefined) {
+                continue
+            }
+            if (delay > 1) {
+                this.messageDelays.set(m, delay - 1)
             } else {
-                this.currentLt += LT_ALIGN
-                tx = await (await this.getContract(message.on)).runTickTock(message.which, params)
-            }
-
-            const transaction: BlockchainTransaction = {
-                ...tx,
-                events: extractEvents(tx),
-                parent: message.parentTransaction,
-                children: [],
-                externals: [],
-            }
-            transaction.parent?.children.push(transaction)
-
-            result = transaction
-            done = true
-
-            for (const message of transaction.outMessages.values()) {
-                if (message.info.type === 'external-out') {
-                    transaction.externals.push({
-                        info: {
-                            type: 'external-out',
-                            src: message.info.src,
-                            dest: message.info.dest ?? undefined,
-                            createdAt: message.info.createdAt,
-                            createdLt: message.info.createdLt,
-                        },
-                        init: message.init ?? undefined,
-                        body: message.body,
-                    })
-                    continue
-                }
+                this.messageDelays.delete(m)
+            }
+        }
 
-                this.messageQueue.push({
-                    type: 'message',
-                    parentTransaction: transaction,
-                    ...message,
+        return message
+    }
+
+    protected async processInternal(run: QueueRun): Promise<IteratorResult<BlockchainTransaction>> {
+        await this.scheduleTickTock(run)
+
+        let result: BlockchainTransaction | undefined = undefined
+        while (result === undefined && this.messageQueue.length > 0) {
+            result = await this.processMessage(this.takeNextMessage(run.strategy), run)
+
+            if (this.messageQueue.length === 0) {
+                await this.scheduleTickTock(run)
+            }
+
+            if (this.messageQueue.length === 0 && this.blockTransactions.length > 0) {
+                this.closeBlock()
+            }
+        }
+        return result === undefined ? { value: result, done: true } : { value: result, done: false }
+    }
+
+    /**
+     * Runs transaction triggered by pending message.
+     * @returns Transaction, or undefined if the message was not delivered
+     */
+    protected async processMessage(pending: PendingMessage, run: QueueRun): Promise<BlockchainTransaction | undefined> {
+        let message: PendingMessage = pending
+        if (message.type === 'message') {
+            if (message.info.type === 'external-out') {
+                return undefined
+            }
+            const delivered = await this.runBeforeMessageHooks(message)
+            if (delivered === undefined) {
+                return undefined
+            }
+            message = delivered
+        }
+
+        const address = message.type === 'message' ? message.info.dest as Address : message.on
+        this.checkLimits(message, address, run)
+
+        this.currentLt += LT_ALIGN
+        const contract = await this.getContract(address)
+        const before = this.hooks.afterTransaction.length > 0 ? contract.account : undefined
+        if (this.shouldRecordStates && !this.accountStates.has(address.toRawString())) {
+            this.accountStates.set(address.toRawString(), [{ lt: contract.lastTransactionLt, contract: contract.clone(this) }])
+        }
+        const txParams = this.transactionParams(message, contract, run)
+        const tx = message.type === 'message'
+            ? await contract.receiveMessage(message, txParams)
+            : await contract.runTickTock(message.which, txParams)
+        this.advanceClock(tx.now, run)
+        if (address.workChain === MASTERCHAIN_ID) {
+            this.libraries.setPublisherLibraries(address, accountLibraries(contract.account))
+        }
+
+        const transaction: BlockchainTransaction = {
+            ...tx,
+            randomSeed: txParams.randomSeed,
+            events: extractEvents(tx),
+            parent: message.parentTransaction,
+            children: [],
+            externals: [],
+        }
+        transaction.parent?.children.push(transaction)
+
+        run.transactions.push(transaction)
+        this.history?.add(address, transaction)
+        if (this.shouldRecordStates) {
+            this.accountStates.get(address.toRawString())?.push({ lt: transaction.lt, contract: contract.clone(this) })
+        }
+        run.addressTransactions.set(address.toRawString(), (run.addressTransactions.get(address.toRawString()) ?? 0) + 1)
+
+        if (this.shouldProduceBlocks) {
+            this.blockTransactions.push(transaction)
+        }
+
+        for (const message of transaction.outMessages.values()) {
+            if (message.info.type === 'external-out') {
+                transaction.externals.push({
+                    info: {
+                        type: 'external-out',
+                        src: message.info.src,
+                        dest: message.info.dest ?? undefined,
+                        createdAt: message.info.createdAt,
+                        createdLt: message.info.createdLt,
+                    },
+                    init: message.init ?? undefined,
+                    body: message.body,
                 })
+                continue
+            }
+
+            this.messageQueue.push({
+                type: 'message',
+                parentTransaction: transaction,
+                ...message,
+            })
+
+            if (message.info.type === 'internal') {
+                this.startFetchingContract(message.info.dest)
+            }
+        }
+
+        if (before !== undefined) {
+            for (const hook of [...this.hooks.afterTransaction]) {
+                await hook(transaction, { before, after: contract.account })
+            }
+        }
+        for (const external of transaction.externals) {
+            for (const hook of [...this.hooks.externalOut]) {
+                await hook(external, transaction)
+            }
+        }
+
+        return transaction
+    }
+
+    /**
+     * Throws {@link TransactionLimitError} if running the transaction would exceed any of the limits. Message queue is cleared before throwing.
+     */
+    protected checkLimits(message: PendingMessage, address: Address, run: QueueRun) {
+        const { maxTransactions, maxDepth, maxTransactionsPerAddress } = run.limits
+        let exceeded: [keyof TransactionLimits, number, Address?] | undefined = undefined
+        if (maxTransactions !== undefined && run.transactions.length >= maxTransactions) {
+            exceeded = ['maxTransactions', maxTransactions]
+        } else if (maxDepth !== undefined && messageDepth(message) >= maxDepth) {
+            exceeded = ['maxDepth', maxDepth]
+        } else if (maxTransactionsPerAddress !== undefined && (run.addressTransactions.get(address.toRawString()) ?? 0) >= maxTransactionsPerAddress) {
+            exceeded = ['maxTransactionsPerAddress', maxTransactionsPerAddress, address]
+        }
+
+        if (exceeded === undefined) {
+            return
+        }
+
+        const pending = [message, ...this.messageQueue]
+        this.messageQueue = []
+        if (this.blockTransactions.length > 0) {
+            this.closeBlock()
+        }
+        throw new TransactionLimitError(exceeded[0], exceeded[1], run.transactions, pending, exceeded[2])
+    }
 
-                if (message.info.type === 'internal') {
-                    this.startFetchingContract(message.info.dest)
+    /**
+     * Runs {@link BeforeMessageHook}s registered with {@link onBeforeMessage}.
+     * @returns Message to deliver, or undefined if the message was vetoed
+     */
+    protected async runBeforeMessageHooks(pending: PendingMessage & { type: 'message' }): Promise<(PendingMessage & { type: 'message' }) | undefined> {
+        let message: PendingMessage & { type: 'message' } = pending
+        for (const hook of [...this.hooks.beforeMessage]) {
+            const res = await hook(message, message.parentTransaction)
+            if (res === 'veto') {
+                return undefined
+            }
+            if (res !== undefined) {
+                if (res.info.type === 'external-out') {
+                    throw new Error('Cannot send external out message')
+                }
+                message = {
+                    ...res,
+                    type: 'message',
+                    parentTransaction: pending.parentTransaction,
                 }
             }
+        }
+        return message
+    }
 
+    /**
+     * Pushes tick transactions of special accounts at the start of a batch of messages, and tock transactions once the batch is processed.
+     */
+    protected async scheduleTickTock(run: QueueRun) {
+        if (run.tickTock === 'tick') {
+            if (!this.messageQueue.some(m => m.type === 'message')) {
+                run.tickTock = 'done'
+                return
+            }
+            this.messageQueue.unshift(...await this.specialTickTocks('tick'))
+            run.tickTock = 'tock'
+        } else if (run.tickTock === 'tock' && this.messageQueue.length === 0) {
+            this.messageQueue.push(...await this.specialTickTocks('tock'))
+            run.tickTock = 'done'
         }
-        return result === undefined ? { value: result, done: true } : { value: result, done: false }
     }
 
-    protected async processTx(needsLocking: boolean, params?: MessageParams): Promise<IteratorResult<BlockchainTransaction>> {
-        // Lock only if not locked already
-        return needsLocking ? await this.lock.with(async () => this.processInternal(params)) : await this.processInternal(params)
+    protected async specialTickTocks(which: TickOrTock): Promise<PendingMessage[]> {
+        const result: PendingMessage[] = []
+        for (const account of this.specialAccountsMap.values()) {
+            if (!account.which.includes(which)) {
+                continue
+            }
+            const contract = await this.getContract(account.address)
+            if (contract.accountState?.type !== 'active') {
+                continue
+            }
+            const tickTock: PendingMessage = {
+                type: 'ticktock',
+                on: account.address,
+                which,
+            }
+            this.specialTickTockMessages.add(tickTock)
+            result.push(tickTock)
+        }
+        return result
     }
 
-    protected async processQueue(params?: MessageParams) {
-        params = {
-            now: this.now,
+    /**
+     * Resolves random seed of the transaction on the account at current logical time according to {@link randomSeed}.
+     */
+    protected transactionRandomSeed(address: Address): Buffer {
+        const policy = this.randomSeedPolicy
+        switch (policy.type) {
+            case 'zero':
+                return Buffer.alloc(32)
+            case 'derived': {
+                const lt = Buffer.alloc(8)
+                lt.writeBigUInt64BE(this.currentLt)
+                const workchain = Buffer.alloc(4)
+                workchain.writeInt32BE(address.workChain)
+                return sha256_sync(Buffer.concat([policy.seed, lt, workchain, address.hash]))
+            }
+            case 'custom': {
+                const seed = policy.get(address, this.currentLt)
+                if (seed.length !== 32) {
+                    throw new Error(`Random seed has to be 32 bytes long, got ${seed.length}`)
+                }
+                return seed
+            }
+        }
+    }
+
+    /**
+     * Resolves time of the transaction triggered by the message according to {@link clock}, and its random seed according to {@link randomSeed}.
+     */
+    protected transactionParams(message: PendingMessage, contract: SmartContract, run: QueueRun): SendMessageParams & { randomSeed: Buffer } {
+        const params = run.params
+        let now = params?.now ?? this.currentTime ?? Math.floor(Date.now() / 1000)
+        if (this.clockPolicy.type === 'auto-increment') {
+            now = run.now ?? this.currentTime ?? now
+        } else if (this.clockPolicy.type === 'per-hop' && message.parentTransaction !== undefined) {
+            now = message.parentTransaction.now + this.clockPolicy.delay
+        }
+
+        if (this.clockPolicy.monotonic) {
+            now = Math.max(now, contract.lastTransactionTime)
+        }
+
+        return {
             ...params,
+            now,
+            randomSeed: params?.randomSeed ?? this.transactionRandomSeed(contract.address),
+        }
+    }
+
+    protected advanceClock(txNow: number, run: QueueRun) {
+        if (this.clockPolicy.type === 'auto-increment' && run.now !== undefined) {
+            run.now = txNow + this.clockPolicy.step
+        } else if (this.clockPolicy.type === 'auto-increment') {
+            this.currentTime = txNow + this.clockPolicy.step
+        } else if (this.clockPolicy.type === 'per-hop' && this.currentTime !== undefined) {
+            this.currentTime = Math.max(this.currentTime, txNow)
+        }
+    }
+
+    protected createGenesisBlocks(): PrevBlocksInfo {
+        const genesis = toBlockId(createEmulatedBlock({
+            workchain: MASTERCHAIN_ID,
+            seqno: 0,
+            genUtime: this.currentTime ?? 0,
+            startLt: 0n,
+            endLt: 0n,
+            transactionHashes: [],
+        }))
+        return {
+            lastMcBlocks: [genesis],
+            prevKeyBlock: genesis,
+        }
+    }
+
+    /**
+     * Commits transactions processed since the previous block to a new masterchain block and, for transactions in other workchains, to shard blocks.
+     */
+    protected closeBlock(): EmulatedBlock {
+        const txs = this.blockTransactions
+        this.blockTransactions = []
+
+        const prev = this.prevBlocksInfo ?? this.createGenesisBlocks()
+        const lastMcBlock = prev.lastMcBlocks[0] ?? prev.prevKeyBlock
+        const seqno = lastMcBlock.seqno + 1
+        const genUtime = Math.max(...txs.map(tx => tx.now))
+
+        const byWorkchain = new Map<number, BlockchainTransaction[]>()
+        for (const tx of txs) {
+            const wc = (tx.inMessage?.info.dest as Address | undefined)?.workChain ?? MASTERCHAIN_ID
+            byWorkchain.set(wc, [...(byWorkchain.get(wc) ?? []), tx])
+        }
+
+        const createBlock = (workchain: number, blockTxs: BlockchainTransaction[], shardBlocks?: BlockId[]) => createEmulatedBlock({
+            workchain,
+            seqno,
+            genUtime,
+            startLt: txs[0].lt,
+            endLt: txs[txs.length - 1].lt,
+            transactionHashes: blockTxs.map(tx => tx.hash()),
+            shardBlocks,
+            prevRootHash: workchain === MASTERCHAIN_ID ? lastMcBlock.rootHash : undefined,
+        })
+
+        const shardBlocks: BlockId[] = []
+        for (const [wc, blockTxs] of byWorkchain) {
+            if (wc === MASTERCHAIN_ID) {
+                continue
+            }
+            const block = toBlockId(createBlock(wc, blockTxs))
+            shardBlocks.push(block)
+            blockTxs.forEach(tx => tx.block = block)
         }
+
+        const mcBlock = createBlock(MASTERCHAIN_ID, byWorkchain.get(MASTERCHAIN_ID) ?? [], shardBlocks)
+        const mcBlockId = toBlockId(mcBlock)
+        byWorkchain.get(MASTERCHAIN_ID)?.forEach(tx => tx.block = mcBlockId)
+
+        this.prevBlocksInfo = {
+            lastMcBlocks: [mcBlockId, ...prev.lastMcBlocks].slice(0, MAX_PREV_MC_BLOCKS),
+            prevKeyBlock: prev.prevKeyBlock,
+        }
+
+        return mcBlock
+    }
+
+    protected async processTx(needsLocking: boolean, run: QueueRun): Promise<IteratorResult<BlockchainTransaction>> {
+        // Lock only if not locked already
+        return needsLocking ? await this.lock.with(async () => this.processInternal(run)) : await this.processInternal(run)
+    }
+
+    protected async processQueue(params?: SendMessageParams) {
         return await this.lock.with(async () => {
             // Locked already
             const txs = this.txIter(false, params)
@@ -486,14 +1677,16 @@ export class Blockchain {
      *
      * @param address Address to create contract provider for
      * @param init Initial state of contract
+     * @param [params] Params to run get methods with, also applied to contracts opened through the provider
      */
-    provider(address: Address, init?: StateInit | null): ContractProvider {
+    provider(address: Address, init?: StateInit | null, params?: ContractCallParams): ContractProvider {
         return new BlockchainContractProvider({
             getContract: (addr) => this.getContract(addr),
             pushMessage: (msg) => this.pushMessage(msg),
-            runGetMethod: (addr, method, args) => this.runGetMethod(addr, method, args),
+            runGetMethod: (addr, method, args) => this.runGetMethod(addr, method, args, params),
             pushTickTock: (on, which) => this.pushTickTock(on, which),
-            openContract: <T extends Contract>(contract: T) => this.openContract(contract) as OpenedContract<T>,
+            getTransactions: (addr, lt, hash, limit) => this.getTransactions(addr, lt, hash, limit),
+            openContract: <T extends Contract>(contract: T) => this.openContract(contract, params) as OpenedContract<T>,
         }, address, init)
     }
 
@@ -574,8 +1767,9 @@ export class Blockchain {
      * ```
      *
      * @param contract Contract to open.
+     * @param [params] Params applied to every call of the opened contract, see {@link withParams}
      */
-    openContract<T extends Contract>(contract: T) {
+    openContract<T extends Contract>(contract: T, params?: ContractCallParams) {
         let address: Address;
         let init: StateInit | undefined = undefined;
 
@@ -593,7 +1787,7 @@ export class Blockchain {
             init = contract.init;
         }
 
-        const provider = this.provider(address, init)
+        const provider = this.provider(address, init, params)
         const blkch = this
 
         return new Proxy<any>(contract as any, {
@@ -612,12 +1806,12 @@ export class Blockchain {
                             if (ret instanceof Promise) {
                                 const r = await ret
                                 return {
-                                    ...await blkch.runQueue(),
+                                    ...await blkch.runQueue(params),
                                     result: r,
                                 }
                             } else {
                                 return {
-                                    ...await blkch.runQueue(),
+                                    ...await blkch.runQueue(params),
                                     result: ret,
                                 }
                             }
@@ -629,6 +1823,23 @@ export class Blockchain {
         }) as SandboxContract<T>;
     }
 
+    /**
+     * Creates a view of blockchain that opens contracts with given params. Send methods of such contracts process the message queue with the params,
+     * and get methods are run with them.
+     * ```ts
+     * const lottery = blockchain.withParams({ randomSeed: randomBytes(32), now: deadline + 1 }).openContract(Lottery.createFromAddress(address));
+     * await lottery.sendDraw(wallet.getSender());
+     * const winner = await lottery.getWinner();
+     * ```
+     *
+     * @param params Params applied to every call of contracts opened through the view
+     */
+    withParams(params: ContractCallParams) {
+        return {
+            openContract: <T extends Contract>(contract: T) => this.openContract(contract, params),
+        }
+    }
+
     protected startFetchingContract(address: Address) {
         const addrString = address.toRawString()
         let promise = this.contractFetches.get(addrString)
@@ -680,21 +1891,43 @@ export class Blockchain {
         this.networkConfig = blockchainConfigToBase64(config)
     }
 
+    /**
+     * Modifies individual params of network config.
+     * ```ts
+     * blockchain.updateConfig((config) => {
+     *     const version = config.getGlobalVersion();
+     *     config.setGlobalVersion({ ...version, version: version.version + 1 });
+     *     config.setMsgPrices(0, { ...config.getMsgPrices(0), lumpPrice: 0n });
+     * });
+     * ```
+     *
+     * @param update Function modifying config params using {@link BlockchainConfigEditor}
+     */
+    updateConfig(update: (config: BlockchainConfigEditor) => void) {
+        const editor = new BlockchainConfigEditor(this.config)
+        update(editor)
+        this.networkConfig = editor.build().toBoc({ idx: false }).toString('base64')
+    }
+
     async setShardAccount(address: Address, account: ShardAccount) {
         const contract = await this.getContract(address)
         contract.account = account
+        if (address.workChain === MASTERCHAIN_ID) {
+            this.libraries.setPublisherLibraries(address, accountLibraries(account))
+        }
     }
 
 
     /**
-     * Retrieves global libs cell
+     * Retrieves global libs cell. Public libraries set by `SETLIBCODE` and `CHANGELIB` on masterchain accounts are added to and removed from it automatically
      */
     get libs() {
-        return this.globalLibs
+        return this.libraries.libs
     }
 
     /**
-     * Update global blockchain libs.
+     * Update global blockchain libs. Libraries registered before with {@link registerLibrary} or by setting libs are replaced,
+     * libraries published by masterchain accounts are kept.
      * ```ts
      * const code = await compile('Contract');
      *
@@ -707,7 +1940,155 @@ export class Blockchain {
      * @param value Cell in libs format: Dictionary<CellHash, Cell>
      */
     set libs(value: Cell | undefined) {
-        this.globalLibs = value
+        this.libraries.libs = value
+    }
+
+    /**
+     * Registers library. Without publisher, library is added to global libs directly. With publisher, library is added to the state of
+     * publisher account like `SETLIBCODE` does, and is available either to all contracts or, if private, to the publisher only.
+     * ```ts
+     * const code = await compile('JettonWallet');
+     * const walletCode = await blockchain.registerLibrary(code);
+     * const minter = blockchain.openContract(JettonMinter.createFromConfig({ walletCode, ... }, minterCode));
+     * ```
+     *
+     * @param code Library code
+     * @param opts.publisher Active masterchain account to add the library to
+     * @param opts.public Whether library is public, defaults to true. Private libraries require a publisher
+     * @returns Library cell to use as contract code in place of the library, see {@link libraryCell}
+     */
+    async registerLibrary(code: Cell, opts?: { publisher?: Address, public?: boolean }): Promise<Cell> {
+        const isPublic = opts?.public ?? true
+        if (opts?.publisher === undefined) {
+            if (!isPublic) {
+                throw new Error('Private library requires a publisher')
+            }
+            this.libraries.register(code)
+        } else {
+            if (opts.publisher.workChain !== MASTERCHAIN_ID) {
+                throw new Error(`Library publisher ${opts.publisher} is not a masterchain account`)
+            }
+            const contract = await this.getContract(opts.publisher)
+            await this.setShardAccount(opts.publisher, setAccountLibrary(contract.account, code.hash(), { public: isPublic, root: code }))
+        }
+        return libraryCell(code)
+    }
+
+    /**
+     * Removes library from global libs and from the state of all its publishers.
+     *
+     * @param hash Hash of library code
+     */
+    async unregisterLibrary(hash: Buffer) {
+        for (const publisher of this.libraries.get(hash)?.publishers ?? []) {
+            const contract = await this.getContract(publisher)
+            await this.setShardAccount(publisher, setAccountLibrary(contract.account, hash))
+        }
+        this.libraries.unregister(hash)
+    }
+
+    /**
+     * @returns Libraries registered with {@link registerLibrary} or {@link libs}, and libraries in the state of masterchain accounts
+     */
+    listLibraries(): LibraryInfo[] {
+        return this.libraries.list()
+    }
+
+    /**
+     * @returns Resolver of missing libraries, undefined if storage is used to resolve them
+     */
+    get libraryResolver(): LibraryResolver | undefined {
+        return this.resolver
+    }
+
+    /**
+     * Sets resolver of missing libraries. When a get method reports a missing library, or a transaction fails while the account or the message
+     * references libraries that are not known, the libraries are requested from the resolver and the get method or transaction is retried.
+     * Resolved libraries are registered, see {@link listLibraries}.
+     * ```ts
+     * blockchain.libraryResolver = directoryLibraryResolver('./libs');
+     * ```
+     *
+     * @param value Resolver to use. If undefined, storage is used if it implements {@link BlockchainStorage.getLibrary}
+     */
+    set libraryResolver(value: LibraryResolver | undefined) {
+        this.resolver = value
+    }
+
+    /**
+     * @returns Debug info of contracts registered with {@link registerDebugInfo}. Forks share it with the blockchain they were created from
+     */
+    get debugInfo(): DebugInfoRegistry {
+        return this.debugInfoRegistry
+    }
+
+    /**
+     * Registers debug info of contract code. {@link EmulationError} and {@link GetMethodError} thrown by contracts with this code get a source-level
+     * failure report: source location of the exception, call stack, name of the exit code and last executed source lines. VM logs of such contracts
+     * are collected with at least `'vm_logs_location'` verbosity, while `tx.vmLogs` and error messages keep the requested verbosity.
+     * ```ts
+     * blockchain.registerDebugInfo(code, {
+     *     marks: [
+     *         { cellHash: '5a1f...', offset: 0, location: { file: 'contracts/vault.fc', line: 12 }, function: 'recv_internal' },
+     *     ],
+     *     exitCodes: { 1001: 'NotEnoughFunds' },
+     *     sources: { 'contracts/vault.fc': await readFile('contracts/vault.fc', 'utf-8') },
+     * });
+     * ```
+     *
+     * @param code Contract code
+     * @param info Debug info of the code
+     */
+    registerDebugInfo(code: Cell, info: ContractDebugInfo) {
+        this.debugInfoRegistry.register(code.hash(), info)
+    }
+
+    unregisterDebugInfo(code: Cell) {
+        this.debugInfoRegistry.unregister(code.hash())
+    }
+
+    /**
+     * @returns Coverage collecting executed instructions, undefined if coverage is not collected
+     */
+    get coverage(): Coverage | undefined {
+        return this.coverageCollector
+    }
+
+    /**
+     * Sets coverage collecting instructions executed by every transaction and get method. VM logs are collected with at least `'vm_logs_location'`
+     * verbosity while coverage is set, while `tx.vmLogs` and error messages keep the requested verbosity. The same coverage can be shared by several blockchains, forks share it with the blockchain they were created from.
+     * ```ts
+     * blockchain.coverage = coverage;
+     * ```
+     *
+     * @param value Coverage to add executed instructions to. If undefined, coverage is not collected
+     */
+    set coverage(value: Coverage | undefined) {
+        this.coverageCollector = value
+    }
+
+    /**
+     * Looks up library among known libraries, then asks library resolver for it. Resolved library is registered.
+     * Libraries known only as private are not resolved, so they stay unavailable to contracts that do not publish them.
+     *
+     * @param hash Hash of library code
+     * @returns Library code, undefined if library could not be resolved or is private
+     */
+    async resolveLibrary(hash: Buffer): Promise<Cell | undefined> {
+        const known = this.libraries.get(hash)
+        if (known !== undefined) {
+            return known.public ? known.code : undefined
+        }
+
+        const code = this.resolver !== undefined ? await this.resolver(hash) : await this.storage.getLibrary?.(hash)
+        if (code === undefined) {
+            return undefined
+        }
+        if (!code.hash().equals(hash)) {
+            throw new Error(`Resolved library has hash ${code.hash().toString('hex')}, expected ${hash.toString('hex')}`)
+        }
+        this.libraries.register(code)
+        return code
     }
 
     /**
@@ -730,8 +2111,15 @@ export class Blockchain {
      * @param [opts.executor] Custom contract executor. If omitted {@link Executor} used.
      * @param [opts.config] Config used in blockchain. If omitted {@link defaultConfig} used.
      * @param [opts.storage] Contracts storage used for blockchain. If omitted {@link LocalBlockchainStorage} used.
+     * @param [opts.queueOrder] Order in which pending messages are delivered. If omitted `'fifo'` used.
+     * @param [opts.clock] Policy describing how time passes in blockchain. If omitted `{ type: 'fixed' }` used.
+     * @param [opts.randomSeed] Policy describing random seeds of transactions. If omitted `{ type: 'zero' }` used.
+     * @param [opts.limits] Limits applied to every call processing the message queue. If omitted, no limits are applied.
+     * @param [opts.transactionHistory] Params of transaction history. If omitted, transactions are not recorded.
+     * @param [opts.libraryResolver] Resolver of missing libraries. If omitted, storage is used if it can resolve libraries.
+     * @param [opts.coverage] Coverage collecting instructions executed by transactions and get methods. If omitted, coverage is not collected.
      */
-    static async create(opts?: { executor?: IExecutor, config?: BlockchainConfig, storage?: BlockchainStorage }) {
+    static async create(opts?: { executor?: IExecutor, config?: BlockchainConfig, storage?: BlockchainStorage, queueOrder?: MessageQueueOrder, clock?: ClockPolicy, randomSeed?: RandomSeedPolicy, limits?: TransactionLimits, transactionHistory?: TransactionHistoryParams, libraryResolver?: LibraryResolver, coverage?: Coverage }) {
         return new Blockchain({
             executor: opts?.executor ?? await Executor.create(),
             storage: opts?.storage ?? new LocalBlockchainStorage(),
@@ -60,6 +60,7 @@ export class BlockchainContractProvider implements SandboxContractProvider {
             pushMessage(message: Message): Promise<void>
             runGetMethod(address: Address, method: string, args: TupleItem[]): Promise<GetMethodResult>
             pushTickTock(on: Address, which: TickOrTock): Promise<void>,
+            getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): Promise<Transaction[]>,
             openContract<T extends Contract>(contract: T): OpenedContract<T>
         },
         private readonly address: Address,
@@ -103,13 +104,12 @@ export class BlockchainContractProvider implements SandboxContractProvider {
     }
 
     /**
-     * Dummy implementation of getTransactions. Sandbox does not store transactions, so its ContractProvider cannot fetch any.
-     * Throws error in every call.
+     * Fetches recorded transactions of the account. For additional information see {@link Blockchain.getTransactions}
      *
-     * @throws {Error}
+     * @throws {Error} If transaction history is not recorded
      */
     getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number | undefined): Promise<Transaction[]> {
-        throw new Error("`getTransactions` is not implemented in `BlockchainContractProvider`, do not use it in the tests")
+        return this.blockchain.getTransactions(address, lt, hash, limit)
     }
 
     /**
@@ -1,5 +1,6 @@
-import {AccountState, Address, Cell} from "@ton/core";
+import {AccountState, AccountStorage, Address, Cell} from "@ton/core";
 import {SmartContract} from "./SmartContract";
+import {computeStorageUsed} from "../utils/storageUsed";
 import {Blockchain} from "./Blockchain";
 
 
@@ -10,6 +11,10 @@ export interface BlockchainStorage {
     getContract(blockchain: Blockchain, address: Address): Promise<SmartContract>
     knownContracts(): SmartContract[]
     clearKnownContracts(): void
+    /**
+     * Looks up library code by its hash. If implemented, used by {@link Blockchain} to resolve missing libraries unless {@link Blockchain.libraryResolver} is set.
+     */
+    getLibrary?(hash: Buffer): Promise<Cell | undefined>
 }
 
 export class LocalBlockchainStorage implements BlockchainStorage {
@@ -34,6 +39,58 @@ export class LocalBlockchainStorage implements BlockchainStorage {
     }
 }
 
+/**
+ * @class {ForkedBlockchainStorage} Copy-on-read storage used by {@link Blockchain.fork}. State of contracts known to the parent storage at the moment
+ * of creation is captured without copying, and contracts are copied on first access. Contracts the parent storage did not know about are created empty,
+ * the same way {@link LocalBlockchainStorage} does, so later changes of the parent are not visible in the fork.
+ */
+export class ForkedBlockchainStorage implements BlockchainStorage {
+    private contracts: Map<string, SmartContract> = new Map()
+    private base: Map<string, (blockchain: Blockchain) => SmartContract>
+
+    constructor(private parent: BlockchainStorage, private parentBlockchain: Blockchain) {
+        this.base = parent instanceof ForkedBlockchainStorage
+            ? parent.captureContracts()
+            : new Map(parent.knownContracts().map(c => [c.address.toString(), c.cloneLater()]))
+    }
+
+    /**
+     * @returns Captured state of every contract known to the storage, used to fork it without copying contracts
+     */
+    captureContracts(): Map<string, (blockchain: Blockchain) => SmartContract> {
+        const captured = new Map(this.base)
+        for (const [key, contract] of this.contracts) {
+            captured.set(key, contract.cloneLater())
+        }
+        return captured
+    }
+
+    async getContract(blockchain: Blockchain, address: Address) {
+        let existing = this.contracts.get(address.toString())
+        if (!existing) {
+            const copy = this.base.get(address.toString())
+            existing = copy === undefined ? SmartContract.empty(blockchain, address) : copy(blockchain)
+            this.contracts.set(address.toString(), existing)
+        }
+
+        return existing
+    }
+
+    async getLibrary(hash: Buffer) {
+        return await this.parent.getLibrary?.(hash)
+    }
+
+    knownContracts() {
+        const notCopied = Array.from(this.base.entries()).filter(([key]) => !this.contracts.has(key)).map(([, copy]) => copy(this.parentBlockchain))
+        return [...this.contracts.values(), ...notCopied]
+    }
+
+    clearKnownContracts() {
+        this.contracts.clear()
+        this.base.clear()
+    }
+}
+
 export interface RemoteBlockchainStorageClient {
     getLastBlockSeqno(): Promise<number>
     getAccount(seqno: number, address: Address): Promise<{
@@ -41,6 +98,7 @@ export interface RemoteBlockchainStorageClient {
         balance: bigint
         lastTransaction?: { lt: bigint, hash: Buffer }
     }>
+    getLibrary?(hash: Buffer): Promise<Cell | undefined>
 }
 
 function convertTonClient4State(state: {
@@ -159,25 +217,23 @@ export class RemoteBlockchainStorage implements BlockchainStorage {
 
             const lt = account.lastTransaction?.lt ?? 0n
 
+            const storage: AccountStorage = {
+                lastTransLt: lt === 0n ? 0n : (lt + 1n),
+                balance: { coins: account.balance },
+                state: account.state,
+            }
+
             existing = new SmartContract({
                 lastTransactionHash: BigInt('0x' + (account.lastTransaction?.hash?.toString('hex') ?? '0')),
                 lastTransactionLt: lt,
                 account: {
                     addr: address,
                     storageStats: {
-                        used: {
-                            cells: 0n,
-                            bits: 0n,
-                            publicCells: 0n,
-                        },
+                        used: computeStorageUsed(storage),
                         lastPaid: 0,
                         duePayment: null,
                     },
-                    storage: {
-                        lastTransLt: lt === 0n ? 0n : (lt + 1n),
-                        balance: { coins: account.balance },
-                        state: account.state,
-                    },
+                    storage,
                 },
             }, blockchain)
 
@@ -187,6 +243,10 @@ export class RemoteBlockchainStorage implements BlockchainStorage {
         return existing
     }
 
+    async getLibrary(hash: Buffer) {
+        return await this.client.getLibrary?.(hash)
+    }
+
     knownContracts() {
         return Array.from(this.contracts.values())
     }
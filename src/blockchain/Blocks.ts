@@ -0,0 +1,124 @@
+import { beginCell, Cell, Tuple, TupleItem } from "@ton/core";
+
+export const MASTERCHAIN_ID = -1
+export const FULL_SHARD = 0x8000000000000000n
+export const MAX_PREV_MC_BLOCKS = 16
+
+/**
+ * @type BlockId Identifies a block, mirrors BlockIdExt.
+ */
+export type BlockId = {
+    workchain: number
+    shard: bigint
+    seqno: number
+    rootHash: Buffer
+    fileHash: Buffer
+}
+
+/**
+ * @type EmulatedBlock Block produced by sandbox out of a batch of transactions.
+ * @property {number} genUtime Generation time of the block
+ * @property {bigint} startLt Logical time of the first transaction in the block
+ * @property {bigint} endLt Logical time of the last transaction in the block
+ * @property {BlockId[]} shardBlocks Shard blocks committed to masterchain block. Empty for shard blocks
+ */
+export type EmulatedBlock = BlockId & {
+    genUtime: number
+    startLt: bigint
+    endLt: bigint
+    shardBlocks: BlockId[]
+}
+
+/**
+ * @type PrevBlocksInfo Data returned by `PREVMCBLOCKS` and `PREVKEYBLOCK`.
+ * @property {BlockId[]} lastMcBlocks Last masterchain blocks, newest first, at most 16
+ * @property {BlockId} prevKeyBlock Most recent key block
+ */
+export type PrevBlocksInfo = {
+    lastMcBlocks: BlockId[]
+    prevKeyBlock: BlockId
+}
+
+function blockIdToTuple(id: BlockId): Tuple {
+    return {
+        type: 'tuple',
+        items: [
+            { type: 'int', value: BigInt(id.workchain) },
+            { type: 'int', value: BigInt.asIntN(64, id.shard) },
+            { type: 'int', value: BigInt(id.seqno) },
+            { type: 'int', value: BigInt('0x' + id.rootHash.toString('hex')) },
+            { type: 'int', value: BigInt('0x' + id.fileHash.toString('hex')) },
+        ],
+    }
+}
+
+/**
+ * Converts {@link PrevBlocksInfo} to the tuple stored in c7 and returned by `PREVBLOCKSINFOTUPLE`.
+ */
+export function prevBlocksInfoToTuple(info: PrevBlocksInfo): Tuple {
+    const lastMcBlocks: TupleItem[] = info.lastMcBlocks.map(blockIdToTuple)
+    return {
+        type: 'tuple',
+        items: [
+            { type: 'tuple', items: lastMcBlocks },
+            blockIdToTuple(info.prevKeyBlock),
+        ],
+    }
+}
+
+function hashChain(hashes: Buffer[]): Cell {
+    return hashes.reduce((acc, h) => beginCell().storeRef(acc).storeBuffer(h).endCell(), beginCell().endCell())
+}
+
+/**
+ * Creates a block with deterministic root and file hashes derived from its header and contents.
+ */
+export function createEmulatedBlock(args: {
+    workchain: number,
+    shard?: bigint,
+    seqno: number,
+    genUtime: number,
+    startLt: bigint,
+    endLt: bigint,
+    transactionHashes: Buffer[],
+    shardBlocks?: BlockId[],
+    prevRootHash?: Buffer,
+}): EmulatedBlock {
+    const shard = args.shard ?? FULL_SHARD
+    const shardBlocks = args.shardBlocks ?? []
+    const root = beginCell()
+        .storeInt(args.workchain, 32)
+        .storeUint(shard, 64)
+        .storeUint(args.seqno, 32)
+        .storeUint(args.genUtime, 32)
+        .storeUint(args.startLt, 64)
+        .storeUint(args.endLt, 64)
+        .storeBuffer(args.prevRootHash ?? Buffer.alloc(32))
+        .storeRef(hashChain(args.transactionHashes))
+        .storeRef(hashChain(shardBlocks.map(b => b.rootHash)))
+        .endCell()
+    const rootHash = root.hash()
+    const fileHash = beginCell().storeBuffer(rootHash).storeRef(root).endCell().hash()
+
+    return {
+        workchain: args.workchain,
+        shard,
+        seqno: args.seqno,
+        rootHash,
+        fileHash,
+        genUtime: args.genUtime,
+        startLt: args.startLt,
+        endLt: args.endLt,
+        shardBlocks,
+    }
+}
+
+export function toBlockId(block: BlockId): BlockId {
+    return {
+        workchain: block.workchain,
+        shard: block.shard,
+        seqno: block.seqno,
+        rootHash: block.rootHash,
+        fileHash: block.fileHash,
+    }
+}
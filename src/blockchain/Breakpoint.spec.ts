@@ -0,0 +1,37 @@
+import { BlockchainTransaction } from "./Blockchain";
+import { Breakpoint } from "./Breakpoint";
+
+function tx(lt: bigint): BlockchainTransaction {
+    return { lt, events: [], externals: [] } as unknown as BlockchainTransaction
+}
+
+async function* chain(txs: BlockchainTransaction[]) {
+    for (const t of txs) {
+        yield t
+    }
+}
+
+describe('Breakpoint', () => {
+    const txs = [1n, 2n, 3n, 4n, 5n].map(tx)
+
+    it('should pause on matching transactions', async () => {
+        const breakpoint = new Breakpoint(chain(txs), t => t.lt % 2n === 0n)
+        expect(await breakpoint.resume()).toBe(txs[1])
+        expect(breakpoint.transactions).toEqual(txs.slice(0, 2))
+        expect(await breakpoint.resume()).toBe(txs[3])
+        expect(breakpoint.transaction).toBe(txs[3])
+        expect(await breakpoint.resume()).toBeUndefined()
+        expect(breakpoint.done).toBe(true)
+        expect(breakpoint.transactions).toEqual(txs)
+    })
+
+    it('should resume with another predicate and finish', async () => {
+        const breakpoint = new Breakpoint(chain(txs), t => t.lt === 1n)
+        expect(await breakpoint.resume()).toBe(txs[0])
+        expect(await breakpoint.resume(t => t.lt === 3n)).toBe(txs[2])
+        const result = await breakpoint.finish()
+        expect(result.transactions).toEqual(txs)
+        expect(breakpoint.transaction).toBeUndefined()
+        expect(breakpoint.done).toBe(true)
+    })
+})
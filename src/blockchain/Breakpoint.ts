@@ -0,0 +1,75 @@
+import { BlockchainTransaction, SendMessageResult } from "./Blockchain";
+
+/**
+ * @type BreakpointPredicate Decides whether message processing should pause after the transaction.
+ */
+export type BreakpointPredicate = (transaction: BlockchainTransaction) => boolean | Promise<boolean>
+
+/**
+ * Message processing paused by {@link Blockchain.sendMessageUntil}. While paused, pending messages stay in the queue, and contract states
+ * and get methods can be inspected as usual.
+ */
+export class Breakpoint {
+    readonly transactions: BlockchainTransaction[] = []
+    protected matched?: BlockchainTransaction
+    protected finished = false
+
+    constructor(protected readonly iterator: AsyncIterator<BlockchainTransaction>, protected predicate: BreakpointPredicate) {
+    }
+
+    /**
+     * @returns Transaction that matched the predicate, or undefined if the chain was processed without a match
+     */
+    get transaction() {
+        return this.matched
+    }
+
+    /**
+     * @returns Whether all pending messages were processed
+     */
+    get done() {
+        return this.finished
+    }
+
+    /**
+     * Continues processing messages until the next transaction that matches the predicate.
+     * ```ts
+     * const tx = await breakpoint.resume(tx => tx.description.type === 'generic' && tx.description.aborted);
+     * ```
+     *
+     * @param predicate Predicate to use from now on. If omitted, the previous one is used
+     * @returns Transaction that matched the predicate, or undefined if the chain was processed without a match
+     */
+    async resume(predicate?: BreakpointPredicate): Promise<BlockchainTransaction | undefined> {
+        if (predicate !== undefined) {
+            this.predicate = predicate
+        }
+        this.matched = undefined
+        while (!this.finished) {
+            const next = await this.iterator.next()
+            if (next.done) {
+                this.finished = true
+                break
+            }
+            this.transactions.push(next.value)
+            if (await this.predicate(next.value)) {
+                this.matched = next.value
+                break
+            }
+        }
+        return this.matched
+    }
+
+    /**
+     * Processes the rest of the chain without pausing.
+     * @returns Result containing all transactions of the chain, including the ones processed before the breakpoint
+     */
+    async finish(): Promise<SendMessageResult> {
+        await this.resume(() => false)
+        return {
+            transactions: this.transactions,
+            events: this.transactions.map(tx => tx.events).flat(),
+            externals: this.transactions.map(tx => tx.externals).flat(),
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import { Blockchain, BlockchainTransaction, SendMessageParams, SendMessageResult } from "./Blockchain";
+import { MessageQueueStrategy } from "./MessageQueue";
+
+/**
+ * @type InterleavingCheck Predicate run against the final state of every explored interleaving.
+ * Returning `false` or throwing marks the interleaving as failed.
+ */
+export type InterleavingCheck = (blockchain: Blockchain, result: SendMessageResult) => boolean | void | Promise<boolean | void>
+
+/**
+ * @type ExploreInterleavingsParams Params for {@link Blockchain.exploreInterleavings}.
+ * @property {number} maxDepth Number of first deliveries for which all alternatives are explored, later deliveries are made in FIFO order. Defaults to 8
+ * @property {number} maxSchedules Maximum number of interleavings to run. Defaults to 1000
+ * @property {boolean} stopOnFailure If set, exploration stops at the first failed interleaving
+ */
+export type ExploreInterleavingsParams = Omit<SendMessageParams, 'queueOrder'> & Partial<{
+    maxDepth: number,
+    maxSchedules: number,
+    stopOnFailure: boolean,
+}>
+
+/**
+ * @type InterleavingFailure Failed interleaving.
+ * @property {number[]} schedule Index of the pending message delivered at every step. Pass it to {@link scheduleQueueStrategy} to replay the interleaving
+ * @property {BlockchainTransaction[]} transactions Transactions in the order they were executed, up to the failed one if emulation threw
+ * @property error Error thrown by the check or by emulation, if any
+ */
+export type InterleavingFailure = {
+    schedule: number[]
+    transactions: BlockchainTransaction[]
+    error?: unknown
+}
+
+/**
+ * @type InterleavingsReport Result of {@link Blockchain.exploreInterleavings}.
+ * @property {number} explored Number of interleavings that were run
+ * @property {boolean} complete Whether all interleavings within `maxDepth` were explored
+ * @property {InterleavingFailure[]} failures Failed interleavings
+ */
+export type InterleavingsReport = {
+    explored: number
+    complete: boolean
+    failures: InterleavingFailure[]
+}
+
+export type ScheduleQueueStrategy = MessageQueueStrategy & {
+    readonly taken: number[]
+    readonly branching: number[]
+}
+
+/**
+ * Creates a {@link MessageQueueStrategy} that delivers the pending message with the index from `schedule` at every step, and falls back to FIFO
+ * once the schedule is exhausted. Used to replay interleavings reported by {@link Blockchain.exploreInterleavings}:
+ * ```ts
+ * await blockchain.sendMessages(messages, { queueOrder: scheduleQueueStrategy(failure.schedule) });
+ * ```
+ *
+ * @param schedule Index of the pending message to deliver at every step
+ */
+export function scheduleQueueStrategy(schedule: number[]): ScheduleQueueStrategy {
+    const taken: number[] = []
+    const branching: number[] = []
+    return {
+        taken,
+        branching,
+        next: (queue) => {
+            const choice = Math.min(schedule[taken.length] ?? 0, queue.length - 1)
+            taken.push(choice)
+            branching.push(queue.length)
+            return choice
+        },
+    }
+}
+
+/**
+ * @returns Next schedule in depth-first order, or undefined if all schedules within `maxDepth` were explored
+ */
+export function nextSchedule(taken: number[], branching: number[], maxDepth: number): number[] | undefined {
+    for (let i = Math.min(taken.length, maxDepth) - 1; i >= 0; i--) {
+        if (taken[i] + 1 < branching[i]) {
+            return [...taken.slice(0, i), taken[i] + 1]
+        }
+    }
+    return undefined
+}
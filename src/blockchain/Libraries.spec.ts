@@ -0,0 +1,87 @@
+import "@ton/test-utils";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Address, beginCell, Cell, Dictionary } from "@ton/core";
+import { accountLibraries, directoryLibraryResolver, findLibraryCells, libraryCell, LibraryRegistry, setAccountLibrary } from "./Libraries";
+import { createShardAccount } from "./SmartContract";
+
+function libs(registry: LibraryRegistry) {
+    return Dictionary.loadDirect(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell(), registry.libs ?? null)
+}
+
+describe('LibraryRegistry', () => {
+    const lib = beginCell().storeUint(0xdeadbeef, 32).endCell()
+    const publisher = new Address(-1, Buffer.alloc(32, 1))
+    const other = new Address(-1, Buffer.alloc(32, 2))
+
+    it('should keep public libraries in global libs', () => {
+        const registry = new LibraryRegistry()
+        registry.setPublisherLibraries(publisher, new Map([[lib.hash().toString('hex'), { public: false, root: lib }]]))
+        expect(registry.libs).toBeUndefined()
+        expect(registry.list()).toEqual([{ hash: lib.hash(), code: lib, public: false, publishers: [publisher] }])
+
+        registry.setPublisherLibraries(other, new Map([[lib.hash().toString('hex'), { public: true, root: lib }]]))
+        expect(libs(registry).get(lib.hash())).toEqualCell(lib)
+
+        registry.setPublisherLibraries(other, new Map())
+        expect(registry.libs).toBeUndefined()
+        registry.setPublisherLibraries(publisher, new Map())
+        expect(registry.list()).toEqual([])
+    })
+
+    it('should keep published libraries when libs are replaced', () => {
+        const registry = new LibraryRegistry()
+        const registered = beginCell().storeUint(1, 8).endCell()
+        registry.register(registered)
+        registry.setPublisherLibraries(publisher, new Map([[lib.hash().toString('hex'), { public: true, root: lib }]]))
+        expect(libs(registry).size).toBe(2)
+
+        registry.libs = undefined
+        expect(libs(registry).keys()).toEqual([lib.hash()])
+
+        const restored = LibraryRegistry.fromSnapshot(registry.snapshot())
+        expect(restored.list()).toEqual(registry.list())
+        expect(restored.libs).toEqualCell(registry.libs!)
+
+        registry.unregister(lib.hash())
+        expect(libs(registry).keys()).toEqual([lib.hash()])
+    })
+})
+
+describe('libraries', () => {
+    it('should create library cell', () => {
+        const code = beginCell().storeUint(1, 32).endCell()
+        const cell = libraryCell(code)
+        expect(cell.isExotic).toBe(true)
+        expect(cell.bits.length).toBe(8 + 256)
+        expect(libraryCell(code.hash())).toEqualCell(cell)
+    })
+
+    it('should change libraries of account', () => {
+        const lib = beginCell().storeUint(2, 32).endCell()
+        const account = createShardAccount({ code: Cell.EMPTY, data: Cell.EMPTY, balance: 0n, workchain: -1 })
+        const updated = setAccountLibrary(account, lib.hash(), { public: true, root: lib })
+        expect(accountLibraries(updated).get(lib.hash().toString('hex'))).toEqual({ public: true, root: lib })
+        expect(updated.account!.storageStats.used.cells).toBeGreaterThan(account.account!.storageStats.used.cells)
+        expect(accountLibraries(setAccountLibrary(updated, lib.hash())).size).toBe(0)
+        expect(() => setAccountLibrary({ ...account, account: null }, lib.hash())).toThrow()
+    })
+
+    it('should find library cells', () => {
+        const first = beginCell().storeUint(1, 32).endCell()
+        const second = beginCell().storeUint(2, 32).endCell()
+        const root = beginCell().storeRef(libraryCell(first)).storeRef(beginCell().storeRef(libraryCell(second)).storeRef(libraryCell(first))).endCell()
+        expect(findLibraryCells([root, libraryCell(second)])).toEqual([first.hash(), second.hash()])
+        expect(findLibraryCells([first])).toEqual([])
+    })
+
+    it('should resolve libraries from directory', async () => {
+        const directory = await mkdtemp(join(tmpdir(), 'sandbox-libs-'))
+        const lib = beginCell().storeUint(3, 32).endCell()
+        await writeFile(join(directory, `${lib.hash().toString('hex')}.boc`), lib.toBoc())
+        const resolver = directoryLibraryResolver(directory)
+        expect(await resolver(lib.hash())).toEqualCell(lib)
+        expect(await resolver(Buffer.alloc(32))).toBeUndefined()
+    })
+})
@@ -0,0 +1,302 @@
+import { AccountStorage, Address, beginCell, Cell, CellType, Dictionary, DictionaryValue, loadSimpleLibrary, ShardAccount, SimpleLibrary, storeSimpleLibrary } from "@ton/core";
+import { computeStorageUsed } from "../utils/storageUsed";
+
+/**
+ * @type LibraryInfo Library known to sandbox.
+ * @property {Buffer} hash Hash of library code
+ * @property {Cell} code Library code
+ * @property {boolean} public Whether library is in global libs and can be used by any contract
+ * @property {Address[]} publishers Masterchain accounts that have the library in their state, either public or private
+ */
+export type LibraryInfo = {
+    hash: Buffer
+    code: Cell
+    public: boolean
+    publishers: Address[]
+}
+
+/**
+ * @type LibrarySnapshot Library state kept in {@link BlockchainSnapshot}.
+ * @property {boolean} registered Whether library was registered without a publisher, via {@link Blockchain.registerLibrary} or {@link Blockchain.libs}
+ * @property publishers Accounts that have the library in their state, and whether they publish it
+ */
+export type LibrarySnapshot = {
+    code: Cell
+    registered: boolean
+    publishers: { address: Address, public: boolean }[]
+}
+
+type LibraryRecord = {
+    code: Cell
+    registered: boolean
+    publishers: Map<string, { address: Address, public: boolean }>
+}
+
+/**
+ * @type LibraryResolver Looks up library code by its hash. Used by {@link Blockchain} to load libraries that contracts need but that are not known to it.
+ * @returns Library code, undefined if library is not found
+ */
+export type LibraryResolver = (hash: Buffer) => Promise<Cell | undefined>
+
+/**
+ * Creates resolver that reads libraries from BOC files named after the hex hash of library code, for example `<hash>.boc`.
+ * ```ts
+ * blockchain.libraryResolver = directoryLibraryResolver('./libs');
+ * ```
+ *
+ * @param directory Directory containing library BOC files
+ */
+export function directoryLibraryResolver(directory: string): LibraryResolver {
+    return async (hash) => {
+        // Node builtins are loaded only when the resolver is used, so the package can be bundled for other environments
+        const { readFile } = await import('fs/promises')
+        const { join } = await import('path')
+        for (const name of [hash.toString('hex'), hash.toString('hex').toUpperCase()]) {
+            try {
+                return Cell.fromBoc(await readFile(join(directory, `${name}.boc`)))[0]
+            } catch (e) {
+                if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+                    throw e
+                }
+            }
+        }
+        return undefined
+    }
+}
+
+/**
+ * @returns Hashes of libraries referenced by library cells in the trees of given cells
+ */
+export function findLibraryCells(roots: Cell[]): Buffer[] {
+    const visited = new Set<string>()
+    const found = new Map<string, Buffer>()
+    const visit = (cell: Cell) => {
+        const key = cell.hash().toString('hex')
+        if (visited.has(key)) {
+            return
+        }
+        visited.add(key)
+        if (cell.type === CellType.Library) {
+            const hash = cell.beginParse(true).skip(8).loadBuffer(32)
+            found.set(hash.toString('hex'), hash)
+        }
+        cell.refs.forEach(visit)
+    }
+    roots.forEach(visit)
+    return Array.from(found.values())
+}
+
+/**
+ * Creates library cell that references library by its hash. Library cell can be used as contract code in place of the library itself.
+ * ```ts
+ * await blockchain.registerLibrary(code);
+ * const wallet = blockchain.openContract(JettonWallet.createFromConfig(config, libraryCell(code)));
+ * ```
+ *
+ * @param library Library code or its hash
+ */
+export function libraryCell(library: Cell | Buffer): Cell {
+    const hash = library instanceof Cell ? library.hash() : library
+    const prep = beginCell().storeUint(2, 8).storeBuffer(hash, 32).endCell()
+    return new Cell({ exotic: true, bits: prep.bits, refs: prep.refs })
+}
+
+/**
+ * @returns Libraries in the state of the account, keyed by hex hash
+ */
+export function accountLibraries(account: ShardAccount): Map<string, SimpleLibrary> {
+    const libs = new Map<string, SimpleLibrary>()
+    const state = account.account?.storage.state
+    if (state?.type !== 'active' || !state.state.libraries) {
+        return libs
+    }
+    for (const [hash, lib] of state.state.libraries) {
+        libs.set(hash.toString(16).padStart(64, '0'), lib)
+    }
+    return libs
+}
+
+const SimpleLibraryValue: DictionaryValue<SimpleLibrary> = {
+    serialize: (src, builder) => {
+        builder.store(storeSimpleLibrary(src))
+    },
+    parse: (src) => loadSimpleLibrary(src),
+}
+
+/**
+ * @returns Copy of active account with the library added to its state, or removed from it if `library` is undefined
+ */
+export function setAccountLibrary(account: ShardAccount, hash: Buffer, library?: SimpleLibrary): ShardAccount {
+    const state = account.account?.storage.state
+    if (!account.account || state?.type !== 'active') {
+        throw new Error('Libraries can only be changed on active accounts')
+    }
+
+    const libraries = Dictionary.empty(Dictionary.Keys.BigUint(256), SimpleLibraryValue)
+    for (const [key, lib] of accountLibraries(account)) {
+        libraries.set(BigInt('0x' + key), lib)
+    }
+    if (library === undefined) {
+        libraries.delete(BigInt('0x' + hash.toString('hex')))
+    } else {
+        libraries.set(BigInt('0x' + hash.toString('hex')), library)
+    }
+
+    const storage: AccountStorage = {
+        ...account.account.storage,
+        state: {
+            type: 'active',
+            state: { ...state.state, libraries: libraries.size === 0 ? undefined : libraries },
+        },
+    }
+    return {
+        ...account,
+        account: {
+            ...account.account,
+            storage,
+            storageStats: { ...account.account.storageStats, used: computeStorageUsed(storage) },
+        },
+    }
+}
+
+function isPublic(record: LibraryRecord) {
+    return record.registered || Array.from(record.publishers.values()).some(p => p.public)
+}
+
+/**
+ * Libraries known to {@link Blockchain}, both registered directly and published by masterchain accounts. Global libs are built out of public ones.
+ */
+export class LibraryRegistry {
+    protected records: Map<string, LibraryRecord> = new Map()
+    protected globalLibs?: Cell
+
+    /**
+     * @returns Global libs cell, undefined if there are no public libraries
+     */
+    get libs(): Cell | undefined {
+        return this.globalLibs
+    }
+
+    /**
+     * Replaces registered libraries with the ones in the libs cell. Libraries published by accounts are kept.
+     */
+    set libs(value: Cell | undefined) {
+        for (const [hash, record] of this.records) {
+            record.registered = false
+            if (record.publishers.size === 0) {
+                this.records.delete(hash)
+            }
+        }
+        const libs = Dictionary.loadDirect(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell(), value ?? null)
+        for (const [hash, code] of libs) {
+            this.record(hash.toString('hex'), code).registered = true
+        }
+        this.update()
+    }
+
+    register(code: Cell) {
+        this.record(code.hash().toString('hex'), code).registered = true
+        this.update()
+    }
+
+    /**
+     * Removes registration of the library. Libraries published by accounts stay until they are removed from account state.
+     */
+    unregister(hash: Buffer) {
+        const key = hash.toString('hex')
+        const record = this.records.get(key)
+        if (record === undefined) {
+            return
+        }
+        record.registered = false
+        if (record.publishers.size === 0) {
+            this.records.delete(key)
+        }
+        this.update()
+    }
+
+    /**
+     * Sets libraries of the account, replacing the ones it had before.
+     */
+    setPublisherLibraries(address: Address, libraries: Map<string, SimpleLibrary>) {
+        const publisher = address.toRawString()
+        let changed = false
+        for (const [hash, record] of this.records) {
+            if (record.publishers.has(publisher) && !libraries.has(hash)) {
+                record.publishers.delete(publisher)
+                if (record.publishers.size === 0 && !record.registered) {
+                    this.records.delete(hash)
+                }
+                changed = true
+            }
+        }
+        for (const [hash, lib] of libraries) {
+            const record = this.record(hash, lib.root)
+            if (record.publishers.get(publisher)?.public !== lib.public) {
+                record.publishers.set(publisher, { address, public: lib.public })
+                changed = true
+            }
+        }
+        if (changed) {
+            this.update()
+        }
+    }
+
+    get(hash: Buffer): LibraryInfo | undefined {
+        const record = this.records.get(hash.toString('hex'))
+        return record === undefined ? undefined : {
+            hash: Buffer.from(hash),
+            code: record.code,
+            public: isPublic(record),
+            publishers: Array.from(record.publishers.values()).map(p => p.address),
+        }
+    }
+
+    list(): LibraryInfo[] {
+        return Array.from(this.records.keys()).map(hash => this.get(Buffer.from(hash, 'hex'))!)
+    }
+
+    snapshot(): LibrarySnapshot[] {
+        return Array.from(this.records.values()).map(record => ({
+            code: record.code,
+            registered: record.registered,
+            publishers: Array.from(record.publishers.values()).map(p => ({ ...p })),
+        }))
+    }
+
+    static fromSnapshot(snapshot: LibrarySnapshot[]): LibraryRegistry {
+        const registry = new LibraryRegistry()
+        for (const library of snapshot) {
+            registry.records.set(library.code.hash().toString('hex'), {
+                code: library.code,
+                registered: library.registered,
+                publishers: new Map(library.publishers.map(p => [p.address.toRawString(), { ...p }])),
+            })
+        }
+        registry.update()
+        return registry
+    }
+
+    clone(): LibraryRegistry {
+        return LibraryRegistry.fromSnapshot(this.snapshot())
+    }
+
+    protected record(hash: string, code: Cell): LibraryRecord {
+        let record = this.records.get(hash)
+        if (record === undefined) {
+            record = { code, registered: false, publishers: new Map() }
+            this.records.set(hash, record)
+        }
+        return record
+    }
+
+    protected update() {
+        const libs = Dictionary.empty(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell())
+        for (const [hash, record] of this.records) {
+            if (isPublic(record)) {
+                libs.set(Buffer.from(hash, 'hex'), record.code)
+            }
+        }
+        this.globalLibs = libs.size === 0 ? undefined : beginCell().storeDictDirect(libs).endCell()
+    }
+}
@@ -0,0 +1,82 @@
+import { Address, Cell } from "@ton/core";
+import { randomAddress } from "@ton/test-utils";
+import { BlockchainTransaction, PendingMessage } from "./Blockchain";
+import { createMessageQueueStrategy } from "./MessageQueue";
+import { internal } from "../utils/message";
+
+function pending(to: Address, createdLt: bigint, parentTransaction?: BlockchainTransaction): PendingMessage {
+    return {
+        type: 'message',
+        parentTransaction,
+        ...internal({
+            from: randomAddress(),
+            to,
+            value: 1n,
+            createdLt,
+        }),
+    }
+}
+
+function tx(parent?: BlockchainTransaction): BlockchainTransaction {
+    return { parent, children: [] } as unknown as BlockchainTransaction
+}
+
+function drain(order: Parameters<typeof createMessageQueueStrategy>[0], queue: PendingMessage[]) {
+    const strategy = createMessageQueueStrategy(order)
+    const result: PendingMessage[] = []
+    queue = [...queue]
+    while (queue.length > 0) {
+        result.push(queue.splice(strategy.next(queue), 1)[0])
+    }
+    return result
+}
+
+describe('MessageQueue', () => {
+    const a = randomAddress()
+    const b = randomAddress()
+
+    it('should deliver in push order with fifo', () => {
+        const queue = [pending(a, 3n), pending(b, 1n), pending(a, 2n)]
+        expect(drain('fifo', queue)).toEqual(queue)
+    })
+
+    it('should deliver by lt and group by destination with lt', () => {
+        const m1 = pending(a, 2n)
+        const m2 = pending(b, 1n)
+        const m3 = pending(a, 3n)
+        const m4 = pending(b, 4n)
+        expect(drain('lt', [m1, m2, m3, m4])).toEqual([m2, m4, m1, m3])
+    })
+
+    it('should deliver deepest messages first with depth-first', () => {
+        const root = tx()
+        const child = tx(root)
+        const m1 = pending(a, 0n, root)
+        const m2 = pending(b, 0n, root)
+        const m3 = pending(a, 0n, child)
+        expect(drain('depth-first', [m1, m2, m3])).toEqual([m3, m1, m2])
+    })
+
+    it('should deliver in the same random order for the same seed', () => {
+        const queue = Array.from({ length: 10 }, (_, i) => pending(i % 2 === 0 ? a : b, BigInt(i)))
+        const first = drain({ type: 'random', seed: 42 }, queue)
+        expect(drain({ type: 'random', seed: 42 }, queue)).toEqual(first)
+        expect(first).not.toEqual(queue)
+        expect(new Set(first).size).toBe(queue.length)
+    })
+
+    it('should use custom strategy', () => {
+        const queue = [pending(a, 0n), pending(b, 0n)]
+        expect(drain({ next: q => q.length - 1 }, queue)).toEqual([queue[1], queue[0]])
+    })
+
+    it('should not be confused by external messages', () => {
+        const ext: PendingMessage = {
+            type: 'message',
+            info: { type: 'external-in', dest: a, importFee: 0n },
+            body: new Cell(),
+        }
+        const m = pending(b, 5n)
+        expect(drain('lt', [m, ext])).toEqual([ext, m])
+    })
+})
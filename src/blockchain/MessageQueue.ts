@@ -0,0 +1,133 @@
+import { Address } from "@ton/core";
+import { PendingMessage } from "./Blockchain";
+
+/**
+ * @interface MessageQueueStrategy Decides which pending message is delivered next.
+ */
+export interface MessageQueueStrategy {
+    /**
+     * @param queue Pending messages in the order they were pushed, never empty
+     * @returns Index of the message to deliver next
+     */
+    next(queue: readonly PendingMessage[]): number
+}
+
+/**
+ * @type MessageQueueOrder Order in which pending messages are delivered.
+ * - `'fifo'` delivers messages in the order they were pushed, so every chain is processed breadth-first
+ * - `'lt'` delivers messages in logical time order, and keeps delivering to the same destination while it has pending messages, like a shard does in a block
+ * - `'depth-first'` delivers messages produced by the latest transaction first, so every chain is processed depth-first
+ * - `{ type: 'random', seed }` delivers messages in random order, the same seed always gives the same order
+ * - custom {@link MessageQueueStrategy}
+ */
+export type MessageQueueOrder = 'fifo' | 'lt' | 'depth-first' | { type: 'random', seed: number } | MessageQueueStrategy
+
+function isStrategy(order: MessageQueueOrder): order is MessageQueueStrategy {
+    return typeof order === 'object' && 'next' in order
+}
+
+function messageDestination(message: PendingMessage): Address | undefined {
+    if (message.type === 'ticktock') {
+        return message.on
+    }
+    return message.info.dest instanceof Address ? message.info.dest : undefined
+}
+
+function messageLt(message: PendingMessage): bigint {
+    if (message.type === 'message' && message.info.type === 'internal') {
+        return message.info.createdLt
+    }
+    return 0n
+}
+
+export function messageDepth(message: PendingMessage): number {
+    let depth = 0
+    for (let tx = message.parentTransaction; tx !== undefined; tx = tx.parent) {
+        depth++
+    }
+    return depth
+}
+
+function minIndexBy<T>(items: readonly T[], key: (item: T) => bigint | number, filter: (item: T) => boolean = () => true): number {
+    let best = -1
+    for (let i = 0; i < items.length; i++) {
+        if (!filter(items[i])) {
+            continue
+        }
+        if (best === -1 || key(items[i]) < key(items[best])) {
+            best = i
+        }
+    }
+    return best
+}
+
+export function fifoQueueStrategy(): MessageQueueStrategy {
+    return {
+        next: () => 0,
+    }
+}
+
+export function ltQueueStrategy(): MessageQueueStrategy {
+    let current: Address | undefined = undefined
+    return {
+        next: (queue) => {
+            if (current !== undefined) {
+                const dest = current
+                const idx = minIndexBy(queue, messageLt, m => messageDestination(m)?.equals(dest) ?? false)
+                if (idx !== -1) {
+                    return idx
+                }
+            }
+            const idx = minIndexBy(queue, messageLt)
+            current = messageDestination(queue[idx])
+            return idx
+        },
+    }
+}
+
+export function depthFirstQueueStrategy(): MessageQueueStrategy {
+    return {
+        next: (queue) => minIndexBy(queue, m => -messageDepth(m)),
+    }
+}
+
+// mulberry32
+function createRandom(seed: number) {
+    let state = seed >>> 0
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+export function randomQueueStrategy(seed: number): MessageQueueStrategy {
+    const random = createRandom(seed)
+    return {
+        next: (queue) => Math.floor(random() * queue.length),
+    }
+}
+
+/**
+ * Creates a fresh {@link MessageQueueStrategy} for the order. Custom strategies are returned as is.
+ */
+export function createMessageQueueStrategy(order: MessageQueueOrder): MessageQueueStrategy {
+    if (isStrategy(order)) {
+        return order
+    }
+
+    if (typeof order === 'object') {
+        return randomQueueStrategy(order.seed)
+    }
+
+    switch (order) {
+        case 'fifo':
+            return fifoQueueStrategy()
+        case 'lt':
+            return ltQueueStrategy()
+        case 'depth-first':
+            return depthFirstQueueStrategy()
+    }
+}
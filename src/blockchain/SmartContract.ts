@@ -1,11 +1,14 @@
 import {Blockchain} from "./Blockchain";
 import {
     Account,
+    AccountStorage,
     Address,
     beginCell,
     Cell,
-    contractAddress, Dictionary, loadShardAccount, loadTransaction,
+    CellType,
+    contractAddress, Dictionary, loadOutList, loadShardAccount, loadTransaction,
     Message,
+    OutAction,
     parseTuple,
     ShardAccount,
     storeMessage, storeShardAccount,
@@ -15,33 +18,58 @@ import {
 import { ExtraCurrency, extractEc, packEc } from "../utils/ec";
 import {getSelectorForMethod} from "../utils/selector";
 import { EmulationResult, ExecutorVerbosity, RunCommonArgs, TickOrTock } from "../executor/Executor";
+import { prevBlocksInfoToTuple } from "./Blocks";
+import { accountLibraries, findLibraryCells } from "./Libraries";
+import { FailureReport, formatFailureReport } from "../debug/DebugInfo";
+import { computeStorageUsed } from "../utils/storageUsed";
+
+/**
+ * Decodes action list set by contract in compute phase. Actions are decoded regardless of whether action phase executed them.
+ *
+ * @returns Actions in the order they are executed, empty if compute phase failed or action list is malformed
+ */
+function loadOutActions(actions: string | null): OutAction[] {
+    if (actions === null) {
+        return []
+    }
+    try {
+        return loadOutList(Cell.fromBase64(actions).beginParse())
+    } catch (e) {
+        // Malformed action list fails action phase, which is reflected in the transaction itself
+        return []
+    }
+}
 
-export function createShardAccount(args: { address?: Address, code: Cell, data: Cell, balance: bigint, workchain?: number }): ShardAccount {
+/**
+ * Creates active account.
+ *
+ * @param args.lastPaid Time storage fees were last paid at. Defaults to 0, in which case the first transaction of the account charges no storage fees
+ * and sets it to the time of the transaction. Pass {@link Blockchain.now} to charge storage fees from the moment the account is created
+ */
+export function createShardAccount(args: { address?: Address, code: Cell, data: Cell, balance: bigint, workchain?: number, lastPaid?: number }): ShardAccount {
     let wc = args.workchain ?? 0
     let address = args.address ?? contractAddress(wc, { code: args.code, data: args.data })
     let balance = args.balance ?? 0n
 
+    const storage: AccountStorage = {
+        lastTransLt: 0n,
+        balance: { coins: balance },
+        state: {
+            type: 'active',
+            state: {
+                code: args.code,
+                data: args.data
+            }
+        }
+    }
+
     return {
         account: {
             addr: address,
-            storage: {
-                lastTransLt: 0n,
-                balance: { coins: balance },
-                state: {
-                    type: 'active',
-                    state: {
-                        code: args.code,
-                        data: args.data
-                    }
-                }
-            },
+            storage,
             storageStats: {
-                used: {
-                    cells: 0n,
-                    bits: 0n,
-                    publicCells: 0n
-                },
-                lastPaid: 0,
+                used: computeStorageUsed(storage),
+                lastPaid: args.lastPaid ?? 0,
                 duePayment: null
             }
         },
@@ -84,6 +112,11 @@ const verbosityToExecutorVerbosity: Record<Verbosity, ExecutorVerbosity> = {
     'vm_logs_verbose': 'full_location_stack_verbose',
 }
 
+const verbosityLevels: Verbosity[] = ['none', 'vm_logs', 'vm_logs_location', 'vm_logs_gas', 'vm_logs_full', 'vm_logs_verbose']
+
+// Logs of 'none' verbosity are the last bytes of 'vm_logs' logs
+const shortVmLogsSize = 256
+
 export type LogsVerbosity = {
     print: boolean
     blockchainLogs: boolean
@@ -97,19 +130,40 @@ export type SmartContractTransaction = Transaction & {
     debugLogs: string
     oldStorage?: Cell
     newStorage?: Cell
+    outActions: OutAction[]
 }
+/**
+ * @type MessageParams Params used to run a transaction.
+ * @property verbosity Verbosity for this transaction only, overrides verbosity of the contract and the blockchain
+ */
 export type MessageParams = Partial<{
     now: number,
     randomSeed: Buffer,
     ignoreChksig: boolean,
+    verbosity: Partial<LogsVerbosity> | Verbosity,
 }>
 
+/**
+ * @type GetMethodParams Params used to run a get method.
+ * @property verbosity Verbosity for this get method call only, overrides verbosity of the contract and the blockchain
+ */
 export type GetMethodParams = Partial<{
     now: number,
     randomSeed: Buffer,
     gasLimit: bigint,
+    verbosity: Partial<LogsVerbosity> | Verbosity,
 }>
 
+function mergeVerbosity(verbosity: LogsVerbosity, override?: Partial<LogsVerbosity> | Verbosity): LogsVerbosity {
+    if (override === undefined) {
+        return verbosity
+    }
+    if (typeof override === 'string') {
+        return { ...verbosity, vmLogs: override, blockchainLogs: override !== 'none' }
+    }
+    return { ...verbosity, ...override }
+}
+
 export type GetMethodResult = {
     stack: TupleItem[],
     stackReader: TupleReader,
@@ -127,8 +181,9 @@ export class GetMethodError extends Error {
         public blockchainLogs: string,
         public vmLogs: string,
         public debugLogs: string,
+        public report?: FailureReport,
     ) {
-        super(`Unable to execute get method. Got exit_code: ${exitCode}`);
+        super(`Unable to execute get method. Got exit_code: ${exitCode}` + (report === undefined ? '' : `\n${formatFailureReport(report)}`));
     }
 }
 
@@ -149,11 +204,15 @@ export class EmulationError extends Error {
         public exitCode?: number,
         public blockchainLogs?: string,
         public debugLogs?: string,
+        public report?: FailureReport,
     ) {
         let errMsg = `Error while executing transaction: ${error}`
         if (exitCode !== undefined) {
             errMsg += `\nExit code: ${exitCode}`
         }
+        if (report !== undefined) {
+            errMsg += `\n${formatFailureReport(report)}`
+        }
         if (vmLogs !== undefined) {
             errMsg += `\nVM logs:\n${vmLogs}`
         }
@@ -209,6 +268,35 @@ export class SmartContract {
         this.#verbosity = snapshot.verbosity === undefined ? undefined : { ...snapshot.verbosity }
     }
 
+    /**
+     * Creates a copy of the contract bound to another blockchain. The copy shares serialized account state with this contract, so cloning does not
+     * serialize or parse the account.
+     *
+     * @param blockchain Blockchain the copy belongs to
+     */
+    clone(blockchain: Blockchain): SmartContract {
+        return this.cloneLater()(blockchain)
+    }
+
+    /**
+     * Captures the current state of the contract without copying it, so that the copy can be made on first use.
+     *
+     * @returns Function creating a copy of the contract in the captured state, see {@link clone}
+     */
+    cloneLater(): (blockchain: Blockchain) => SmartContract {
+        const account = this.#account
+        const lastTxTime = this.#lastTxTime
+        const verbosity = this.#verbosity === undefined ? undefined : { ...this.#verbosity }
+        return (blockchain) => {
+            const contract = SmartContract.empty(blockchain, this.address)
+            contract.#account = account
+            contract.#parsedAccount = undefined
+            contract.#lastTxTime = lastTxTime
+            contract.#verbosity = verbosity === undefined ? undefined : { ...verbosity }
+            return contract
+        }
+    }
+
     get ec() {
         return extractEc(this.account.account?.storage.balance.other ?? Dictionary.empty(Dictionary.Keys.Uint(32), Dictionary.Values.BigVarUint(5)))
     }
@@ -243,6 +331,13 @@ export class SmartContract {
         return this.account.lastTransactionLt
     }
 
+    /**
+     * @returns Unix time of the last transaction on this contract
+     */
+    get lastTransactionTime() {
+        return this.#lastTxTime
+    }
+
     get accountState() {
         return this.account.account?.storage.state
     }
@@ -268,7 +363,45 @@ export class SmartContract {
         return new SmartContract(createEmptyShardAccount(address), blockchain)
     }
 
-    protected createCommonArgs(params?: MessageParams): RunCommonArgs {
+    protected prevBlocksInfo() {
+        const prevBlocks = this.blockchain.prevBlocks
+        return prevBlocks === undefined ? undefined : prevBlocksInfoToTuple(prevBlocks)
+    }
+
+    /**
+     * @returns Hash of the code that handles the message, used to look up debug info. Library cells are resolved to the hash of the library
+     */
+    protected codeHash(message?: Message): Buffer | undefined {
+        const state = this.account.account?.storage.state
+        const code = state?.type === 'active' ? state.state.code : message?.init?.code
+        if (!code) {
+            return undefined
+        }
+        return code.type === CellType.Library ? code.beginParse(true).skip(8).loadBuffer(32) : code.hash()
+    }
+
+    protected executorVerbosity(verbosity: LogsVerbosity, message?: Message): ExecutorVerbosity {
+        // Coverage and failure reports need locations of instructions, so they are collected even if lower verbosity is requested. Printed and returned logs still use requested verbosity
+        const codeHash = this.codeHash(message)
+        const needsLocations = this.blockchain.coverage !== undefined || (codeHash !== undefined && this.blockchain.debugInfo.has(codeHash))
+        if (needsLocations && verbosityLevels.indexOf(verbosity.vmLogs) < verbosityLevels.indexOf('vm_logs_location')) {
+            return verbosityToExecutorVerbosity['vm_logs_location']
+        }
+        return verbosityToExecutorVerbosity[verbosity.vmLogs]
+    }
+
+    /**
+     * @returns VM logs as they would be with requested verbosity, logs collected with raised verbosity (see {@link executorVerbosity}) have locations removed
+     */
+    protected requestedVmLogs(vmLogs: string, verbosity: LogsVerbosity, message?: Message): string {
+        if (this.executorVerbosity(verbosity, message) === verbosityToExecutorVerbosity[verbosity.vmLogs]) {
+            return vmLogs
+        }
+        const full = vmLogs.split('\n').filter(line => !line.startsWith('code cell hash: ')).join('\n')
+        return verbosity.vmLogs === 'none' ? Buffer.from(full).subarray(-shortVmLogsSize).toString() : full
+    }
+
+    protected createCommonArgs(verbosity: LogsVerbosity, params?: MessageParams, message?: Message): RunCommonArgs {
         const now = params?.now ?? Math.floor(Date.now() / 1000)
 
         if (now < this.#lastTxTime) {
@@ -278,13 +411,14 @@ export class SmartContract {
         return {
             config: this.blockchain.configBase64,
             libs: this.blockchain.libs ?? null,
-            verbosity: verbosityToExecutorVerbosity[this.verbosity.vmLogs],
+            verbosity: this.executorVerbosity(verbosity, message),
             shardAccount: this.#account,
             now,
             lt: this.blockchain.lt,
             randomSeed: params?.randomSeed ?? Buffer.alloc(32),
             ignoreChksig: params?.ignoreChksig ?? false,
-            debugEnabled: this.verbosity.debugLogs,
+            debugEnabled: verbosity.debugLogs,
+            prevBlocksInfo: this.prevBlocksInfo(),
         }
     }
 
@@ -294,46 +428,88 @@ export class SmartContract {
             now: this.blockchain.now,
             ...params,
         }
+        const verbosity = mergeVerbosity(this.verbosity, params.verbosity)
         return await this.runCommon(() => this.blockchain.executor.runTransaction({
-            ...this.createCommonArgs(params),
+            ...this.createCommonArgs(verbosity, params, message),
             message: beginCell().store(storeMessage(message)).endCell(),
-        }))
+        }), verbosity, message)
     }
 
     async runTickTock(which: TickOrTock, params?: MessageParams) {
+        const verbosity = mergeVerbosity(this.verbosity, params?.verbosity)
         return await this.runCommon(() => this.blockchain.executor.runTickTock({
-            ...this.createCommonArgs(params),
+            ...this.createCommonArgs(verbosity, params),
             which,
-        }))
+        }), verbosity)
+    }
+
+    /**
+     * Resolves libraries that are referenced by the account or the message but are not known, if the transaction failed in compute phase.
+     *
+     * @returns Whether any library was resolved, in which case the transaction should be retried
+     */
+    protected async resolveMissingLibraries(transaction: string, message?: Message): Promise<boolean> {
+        const description = loadTransaction(Cell.fromBase64(transaction).beginParse()).description
+        if ((description.type !== 'generic' && description.type !== 'tick-tock') || description.computePhase.type !== 'vm' || description.computePhase.success) {
+            return false
+        }
+
+        const state = this.account.account?.storage.state
+        const roots = [
+            state?.type === 'active' ? state.state.code : undefined,
+            state?.type === 'active' ? state.state.data : undefined,
+            message?.init?.code,
+            message?.init?.data,
+            message?.body,
+        ].filter((cell): cell is Cell => !!cell)
+        const known = Dictionary.loadDirect(Dictionary.Keys.Buffer(32), Dictionary.Values.Cell(), this.blockchain.libs ?? null)
+        const own = accountLibraries(this.account)
+
+        let resolved = false
+        for (const hash of findLibraryCells(roots)) {
+            if (!known.has(hash) && !own.has(hash.toString('hex')) && await this.blockchain.resolveLibrary(hash) !== undefined) {
+                resolved = true
+            }
+        }
+        return resolved
     }
 
-    protected async runCommon(run: () => Promise<EmulationResult>): Promise<SmartContractTransaction> {
+    protected async runCommon(run: () => Promise<EmulationResult>, verbosity: LogsVerbosity, message?: Message): Promise<SmartContractTransaction> {
         let oldStorage: Cell | undefined = undefined
         if (this.blockchain.recordStorage && this.account.account?.storage.state.type === 'active') {
             oldStorage = this.account.account?.storage.state.state.data ?? undefined
         }
 
-        const res = await run()
+        let res = await run()
+        while (res.result.success && await this.resolveMissingLibraries(res.result.transaction, message)) {
+            res = await run()
+        }
 
-        if (this.verbosity.print && this.verbosity.blockchainLogs && res.logs.length > 0) {
+        if (verbosity.print && verbosity.blockchainLogs && res.logs.length > 0) {
             console.log(res.logs)
         }
 
+        this.blockchain.coverage?.addVmLog(res.result.success ? res.result.vmLog : res.result.vmResults?.vmLog ?? '')
+
         if (!res.result.success) {
+            const vmLog = res.result.vmResults?.vmLog
+            const exitCode = res.result.vmResults?.vmExitCode
             throw new EmulationError(
                 res.result.error,
-                res.result.vmResults?.vmLog,
-                res.result.vmResults?.vmExitCode,
+                vmLog === undefined ? undefined : this.requestedVmLogs(vmLog, verbosity, message),
+                exitCode,
                 res.logs.length === 0 ? undefined : res.logs,
                 res.debugLogs.length === 0 ? undefined : res.debugLogs,
+                vmLog === undefined ? undefined : this.blockchain.debugInfo.report(this.codeHash(message), vmLog, exitCode),
             )
         }
 
-        if (this.verbosity.print && this.verbosity.vmLogs !== 'none' && res.result.vmLog.length > 0) {
-            console.log(res.result.vmLog)
+        const vmLogs = this.requestedVmLogs(res.result.vmLog, verbosity, message)
+        if (verbosity.print && verbosity.vmLogs !== 'none' && vmLogs.length > 0) {
+            console.log(vmLogs)
         }
 
-        if (this.verbosity.print && this.verbosity.debugLogs && res.debugLogs.length > 0) {
+        if (verbosity.print && verbosity.debugLogs && res.debugLogs.length > 0) {
             console.log(res.debugLogs)
         }
 
@@ -351,10 +527,11 @@ export class SmartContract {
         return {
             ...tx,
             blockchainLogs: res.logs,
-            vmLogs: res.result.vmLog,
+            vmLogs,
             debugLogs: res.debugLogs,
             oldStorage,
             newStorage,
+            outActions: loadOutActions(res.result.actions),
         }
     }
 
@@ -363,24 +540,38 @@ export class SmartContract {
             throw new Error('Trying to run get method on non-active contract')
         }
 
-        const res = await this.blockchain.executor.runGetMethod({
-            code: this.account.account?.storage.state.state.code!,
-            data: this.account.account?.storage.state.state.data!,
+        const state = this.account.account.storage.state.state
+        const verbosity = mergeVerbosity(this.verbosity, params?.verbosity)
+        const run = () => this.blockchain.executor.runGetMethod({
+            code: state.code!,
+            data: state.data!,
             methodId: typeof method === 'string' ? getSelectorForMethod(method) : method,
             stack,
             config: this.blockchain.configBase64,
-            verbosity: verbosityToExecutorVerbosity[this.verbosity.vmLogs],
+            verbosity: this.executorVerbosity(verbosity),
             libs: this.blockchain.libs,
             address: this.address,
             unixTime: params?.now ?? Math.floor(Date.now() / 1000),
             balance: this.balance,
             randomSeed: params?.randomSeed ?? Buffer.alloc(32),
             gasLimit: params?.gasLimit ?? 10_000_000n,
-            debugEnabled: this.verbosity.debugLogs,
+            debugEnabled: verbosity.debugLogs,
             extraCurrency: this.ec,
+            prevBlocksInfo: this.prevBlocksInfo(),
         })
 
-        if (this.verbosity.print && this.verbosity.blockchainLogs && res.logs.length > 0) {
+        let res = await run()
+        // Every missing library is reported one at a time, so the get method is retried until all of them are resolved
+        const requested = new Set<string>()
+        while (res.output.success && res.output.missing_library && !requested.has(res.output.missing_library)) {
+            requested.add(res.output.missing_library)
+            if (await this.blockchain.resolveLibrary(Buffer.from(res.output.missing_library, 'hex')) === undefined) {
+                break
+            }
+            res = await run()
+        }
+
+        if (verbosity.print && verbosity.blockchainLogs && res.logs.length > 0) {
             console.log(res.logs)
         }
 
@@ -388,11 +579,14 @@ export class SmartContract {
             throw new Error('Error invoking get method: ' + res.output.error)
         }
 
-        if (this.verbosity.print && this.verbosity.vmLogs !== 'none' && res.output.vm_log.length > 0) {
-            console.log(res.output.vm_log)
+        this.blockchain.coverage?.addVmLog(res.output.vm_log)
+
+        const vmLogs = this.requestedVmLogs(res.output.vm_log, verbosity)
+        if (verbosity.print && verbosity.vmLogs !== 'none' && vmLogs.length > 0) {
+            console.log(vmLogs)
         }
 
-        if (this.verbosity.print && this.verbosity.debugLogs && res.debugLogs.length > 0) {
+        if (verbosity.print && verbosity.debugLogs && res.debugLogs.length > 0) {
             console.log(res.debugLogs)
         }
 
@@ -401,8 +595,9 @@ export class SmartContract {
                 res.output.vm_exit_code,
                 BigInt(res.output.gas_used),
                 res.logs,
-                res.output.vm_log,
+                vmLogs,
                 res.debugLogs,
+                this.blockchain.debugInfo.report(this.codeHash(), res.output.vm_log, res.output.vm_exit_code),
             );
         }
 
@@ -414,7 +609,7 @@ export class SmartContract {
             exitCode: res.output.vm_exit_code,
             gasUsed: BigInt(res.output.gas_used),
             blockchainLogs: res.logs,
-            vmLogs: res.output.vm_log,
+            vmLogs,
             debugLogs: res.debugLogs,
         }
     }
@@ -0,0 +1,55 @@
+import { beginCell, storeMessage } from "@ton/core";
+import { randomAddress } from "@ton/test-utils";
+import { BlockchainTransaction } from "./Blockchain";
+import { TransactionHistory } from "./TransactionHistory";
+import { internal } from "../utils/message";
+
+function chain(n: number): BlockchainTransaction[] {
+    const txs: BlockchainTransaction[] = []
+    for (let i = 0; i < n; i++) {
+        const hash = Buffer.alloc(32, i + 1)
+        const prev = txs[i - 1]
+        txs.push({
+            lt: BigInt(i + 1) * 1000n,
+            prevTransactionLt: prev?.lt ?? 0n,
+            prevTransactionHash: prev === undefined ? 0n : BigInt('0x' + prev.hash().toString('hex')),
+            inMessage: internal({ from: randomAddress(), to: randomAddress(), value: BigInt(i) }),
+            hash: () => hash,
+        } as unknown as BlockchainTransaction)
+    }
+    return txs
+}
+
+describe('TransactionHistory', () => {
+    const address = randomAddress()
+
+    it('should page through transactions newest first', () => {
+        const history = new TransactionHistory()
+        const txs = chain(5)
+        txs.forEach(tx => history.add(address, tx))
+
+        expect(history.getTransactions(address, txs[4].lt, txs[4].hash(), 2)).toEqual([txs[4], txs[3]])
+        expect(history.getTransactions(address, txs[2].lt, txs[2].hash())).toEqual([txs[2], txs[1], txs[0]])
+        expect(() => history.getTransactions(address, txs[2].lt, txs[3].hash())).toThrow()
+        expect(() => history.getTransactions(randomAddress(), txs[2].lt, txs[2].hash())).toThrow()
+    })
+
+    it('should keep latest transactions only', () => {
+        const history = new TransactionHistory({ maxTransactionsPerAccount: 2 })
+        const txs = chain(4)
+        txs.forEach(tx => history.add(address, tx))
+
+        expect(history.getTransactions(address, txs[3].lt, txs[3].hash(), 10)).toEqual([txs[3], txs[2]])
+        expect(history.getTransaction(txs[1].hash())).toBeUndefined()
+        expect(history.getTransaction(txs[2].hash())).toBe(txs[2])
+    })
+
+    it('should find transaction by message hash', () => {
+        const history = new TransactionHistory()
+        const txs = chain(3)
+        txs.forEach(tx => history.add(address, tx))
+
+        const hash = beginCell().store(storeMessage(txs[1].inMessage!)).endCell().hash()
+        expect(history.getTransactionByMessageHash(hash)).toBe(txs[1])
+    })
+})
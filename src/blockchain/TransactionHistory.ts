@@ -0,0 +1,90 @@
+import { Address, beginCell, storeMessage } from "@ton/core";
+import { BlockchainTransaction } from "./Blockchain";
+
+/**
+ * @type TransactionHistoryParams Params of transaction history kept by {@link Blockchain}.
+ * @property {number} maxTransactionsPerAccount Number of latest transactions kept for every account. If omitted, all transactions are kept
+ */
+export type TransactionHistoryParams = Partial<{
+    maxTransactionsPerAccount: number,
+}>
+
+function transactionMessageHash(tx: BlockchainTransaction): string | undefined {
+    return !tx.inMessage ? undefined : beginCell().store(storeMessage(tx.inMessage)).endCell().hash().toString('hex')
+}
+
+/**
+ * Per-account log of transactions, oldest first.
+ */
+export class TransactionHistory {
+    protected accounts: Map<string, BlockchainTransaction[]> = new Map()
+    protected byHash: Map<string, BlockchainTransaction> = new Map()
+    protected byMessageHash: Map<string, BlockchainTransaction> = new Map()
+
+    constructor(readonly params: TransactionHistoryParams = {}) {
+    }
+
+    add(address: Address, tx: BlockchainTransaction) {
+        const key = address.toRawString()
+        const txs = this.accounts.get(key) ?? []
+        txs.push(tx)
+        this.accounts.set(key, txs)
+        this.byHash.set(tx.hash().toString('hex'), tx)
+        const messageHash = transactionMessageHash(tx)
+        if (messageHash !== undefined) {
+            this.byMessageHash.set(messageHash, tx)
+        }
+
+        const max = this.params.maxTransactionsPerAccount
+        if (max !== undefined) {
+            for (const removed of txs.splice(0, Math.max(txs.length - max, 0))) {
+                this.byHash.delete(removed.hash().toString('hex'))
+                const removedMessageHash = transactionMessageHash(removed)
+                if (removedMessageHash !== undefined && this.byMessageHash.get(removedMessageHash) === removed) {
+                    this.byMessageHash.delete(removedMessageHash)
+                }
+            }
+        }
+    }
+
+    /**
+     * @returns Transactions of the account starting from the one with given lt and hash and following `prevTransactionLt` and `prevTransactionHash`, newest first
+     */
+    getTransactions(address: Address, lt: bigint, hash: Buffer, limit?: number): BlockchainTransaction[] {
+        const txs = this.accounts.get(address.toRawString()) ?? []
+        let idx = txs.findIndex(tx => tx.lt === lt)
+        if (idx === -1) {
+            throw new Error(`Transaction with lt ${lt} on account ${address} not found`)
+        }
+        if (!txs[idx].hash().equals(hash)) {
+            throw new Error(`Transaction with lt ${lt} on account ${address} has different hash`)
+        }
+
+        const result: BlockchainTransaction[] = [txs[idx]]
+        while ((limit === undefined || result.length < limit) && idx > 0) {
+            const last = result[result.length - 1]
+            const prev = txs[--idx]
+            if (prev.lt !== last.prevTransactionLt || BigInt('0x' + prev.hash().toString('hex')) !== last.prevTransactionHash) {
+                break
+            }
+            result.push(prev)
+        }
+        return result
+    }
+
+    getTransaction(hash: Buffer): BlockchainTransaction | undefined {
+        return this.byHash.get(hash.toString('hex'))
+    }
+
+    getTransactionByMessageHash(hash: Buffer): BlockchainTransaction | undefined {
+        return this.byMessageHash.get(hash.toString('hex'))
+    }
+
+    clone(): TransactionHistory {
+        const history = new TransactionHistory({ ...this.params })
+        history.accounts = new Map(Array.from(this.accounts.entries()).map(([key, txs]) => [key, [...txs]]))
+        history.byHash = new Map(this.byHash)
+        history.byMessageHash = new Map(this.byMessageHash)
+        return history
+    }
+}
@@ -0,0 +1,52 @@
+import "@ton/test-utils";
+import { Cell } from "@ton/core";
+import { defaultConfig } from "./defaultConfig";
+import { BlockchainConfigEditor } from "./BlockchainConfigEditor";
+
+describe('BlockchainConfigEditor', () => {
+    const config = Cell.fromBase64(defaultConfig)
+
+    it('should not change config without modifications', () => {
+        expect(new BlockchainConfigEditor(config).build()).toEqualCell(config)
+    })
+
+    it('should read and write typed params', () => {
+        const editor = new BlockchainConfigEditor(config)
+        const original = (id: number) => new BlockchainConfigEditor(config).get(id)!
+
+        editor.setGlobalVersion(editor.getGlobalVersion())
+        editor.setStoragePrices(editor.getStoragePrices())
+        editor.setGasPrices(-1, editor.getGasPrices(-1))
+        editor.setGasPrices(0, editor.getGasPrices(0))
+        editor.setMsgPrices(-1, editor.getMsgPrices(-1))
+        editor.setMsgPrices(0, editor.getMsgPrices(0))
+        for (const id of [8, 18, 20, 21, 24, 25]) {
+            expect(editor.get(id)).toEqualCell(original(id))
+        }
+
+        expect(editor.getGasPrices(0)).toMatchObject({ flatGasLimit: 100n, flatGasPrice: 40000n, gasPrice: 26214400n })
+        editor.setGasPrices(0, { ...editor.getGasPrices(0), gasPrice: 52428800n })
+        expect(editor.getGasPrices(0).gasPrice).toBe(52428800n)
+        expect(new BlockchainConfigEditor(editor.build()).getGasPrices(0).gasPrice).toBe(52428800n)
+        expect(editor.getStoragePrices()[0].cellPricePs).toBe(500n)
+    })
+
+    it('should write size limits', () => {
+        const editor = new BlockchainConfigEditor(config)
+        expect(editor.getSizeLimits()).toBeUndefined()
+
+        const limits = {
+            maxMsgBits: 1 << 21,
+            maxMsgCells: 1 << 13,
+            maxLibraryCells: 1000,
+            maxVmDataDepth: 512,
+            maxExtMsgSize: 65535,
+            maxExtMsgDepth: 512,
+            maxAccStateCells: 65536,
+            maxAccStateBits: 65536 * 1023,
+        }
+        editor.setSizeLimits(limits)
+        expect(editor.getSizeLimits()).toEqual(limits)
+        expect(() => editor.setSizeLimits({ ...limits, maxAccStateBits: undefined, maxAccPublicLibraries: 256 })).toThrow()
+    })
+})
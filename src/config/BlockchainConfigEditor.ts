@@ -0,0 +1,361 @@
+import { beginCell, Builder, Cell, Dictionary, DictionaryValue, Slice } from "@ton/core";
+import { loadConfigParams } from "./configParams";
+
+/**
+ * @type GlobalVersion Config param 8.
+ * @property {number} version Global version, enables TVM and fee behavior of the corresponding network upgrade
+ * @property {bigint} capabilities Capability flags
+ */
+export type GlobalVersion = {
+    version: number
+    capabilities: bigint
+}
+
+/**
+ * @type StoragePrices Entry of config param 18. Prices are in nanotons per 2^16 seconds.
+ */
+export type StoragePrices = {
+    utimeSince: number
+    bitPricePs: bigint
+    cellPricePs: bigint
+    mcBitPricePs: bigint
+    mcCellPricePs: bigint
+}
+
+/**
+ * @type GasLimitsPrices Config params 20 (masterchain) and 21 (basechain). Gas price is in nanotons per 2^16 gas units.
+ * @property {bigint} flatGasLimit Amount of gas that costs {@link flatGasPrice} regardless of how much of it is used. Only set together with `flatGasPrice`
+ * @property {bigint} specialGasLimit Gas limit of special accounts. If omitted, `gasLimit` is used for them
+ */
+export type GasLimitsPrices = {
+    flatGasLimit?: bigint
+    flatGasPrice?: bigint
+    gasPrice: bigint
+    gasLimit: bigint
+    specialGasLimit?: bigint
+    gasCredit: bigint
+    blockGasLimit: bigint
+    freezeDueLimit: bigint
+    deleteDueLimit: bigint
+}
+
+/**
+ * @type MsgForwardPrices Config params 24 (masterchain) and 25 (basechain). Bit and cell prices are in nanotons per 2^16 units,
+ * fractions are in units of 2^-16.
+ */
+export type MsgForwardPrices = {
+    lumpPrice: bigint
+    bitPrice: bigint
+    cellPrice: bigint
+    ihrPriceFactor: number
+    firstFrac: number
+    nextFrac: number
+}
+
+/**
+ * @type SizeLimits Config param 43. Optional fields are only present in newer versions of the param.
+ */
+export type SizeLimits = {
+    maxMsgBits: number
+    maxMsgCells: number
+    maxLibraryCells: number
+    maxVmDataDepth: number
+    maxExtMsgSize: number
+    maxExtMsgDepth: number
+    maxAccStateCells?: number
+    maxAccStateBits?: number
+    maxAccPublicLibraries?: number
+    deferOutQueueSizeLimit?: number
+    maxMsgExtraCurrencies?: number
+    maxAccFixedPrefixLength?: number
+}
+
+const StoragePricesValue: DictionaryValue<StoragePrices> = {
+    serialize: (src, builder) => {
+        builder
+            .storeUint(0xcc, 8)
+            .storeUint(src.utimeSince, 32)
+            .storeUint(src.bitPricePs, 64)
+            .storeUint(src.cellPricePs, 64)
+            .storeUint(src.mcBitPricePs, 64)
+            .storeUint(src.mcCellPricePs, 64)
+    },
+    parse: (src) => {
+        expectTag(src, 0xcc, 'StoragePrices')
+        return {
+            utimeSince: src.loadUint(32),
+            bitPricePs: src.loadUintBig(64),
+            cellPricePs: src.loadUintBig(64),
+            mcBitPricePs: src.loadUintBig(64),
+            mcCellPricePs: src.loadUintBig(64),
+        }
+    },
+}
+
+function expectTag(src: Slice, tag: number, type: string) {
+    const loaded = src.loadUint(8)
+    if (loaded !== tag) {
+        throw new Error(`Invalid ${type} tag 0x${loaded.toString(16)}`)
+    }
+}
+
+function loadGasLimitsPrices(src: Slice): GasLimitsPrices {
+    const tag = src.loadUint(8)
+    switch (tag) {
+        case 0xd1: {
+            const flatGasLimit = src.loadUintBig(64)
+            const flatGasPrice = src.loadUintBig(64)
+            return {
+                ...loadGasLimitsPrices(src),
+                flatGasLimit,
+                flatGasPrice,
+            }
+        }
+        case 0xdd:
+        case 0xde:
+            return {
+                gasPrice: src.loadUintBig(64),
+                gasLimit: src.loadUintBig(64),
+                specialGasLimit: tag === 0xde ? src.loadUintBig(64) : undefined,
+                gasCredit: src.loadUintBig(64),
+                blockGasLimit: src.loadUintBig(64),
+                freezeDueLimit: src.loadUintBig(64),
+                deleteDueLimit: src.loadUintBig(64),
+            }
+        default:
+            throw new Error(`Invalid GasLimitsPrices tag 0x${tag.toString(16)}`)
+    }
+}
+
+function storeGasLimitsPrices(src: GasLimitsPrices) {
+    return (builder: Builder) => {
+        if (src.flatGasLimit !== undefined || src.flatGasPrice !== undefined) {
+            builder
+                .storeUint(0xd1, 8)
+                .storeUint(src.flatGasLimit ?? 0n, 64)
+                .storeUint(src.flatGasPrice ?? 0n, 64)
+        }
+        builder.storeUint(src.specialGasLimit === undefined ? 0xdd : 0xde, 8)
+        builder.storeUint(src.gasPrice, 64)
+        builder.storeUint(src.gasLimit, 64)
+        if (src.specialGasLimit !== undefined) {
+            builder.storeUint(src.specialGasLimit, 64)
+        }
+        builder
+            .storeUint(src.gasCredit, 64)
+            .storeUint(src.blockGasLimit, 64)
+            .storeUint(src.freezeDueLimit, 64)
+            .storeUint(src.deleteDueLimit, 64)
+    }
+}
+
+function loadMsgForwardPrices(src: Slice): MsgForwardPrices {
+    expectTag(src, 0xea, 'MsgForwardPrices')
+    return {
+        lumpPrice: src.loadUintBig(64),
+        bitPrice: src.loadUintBig(64),
+        cellPrice: src.loadUintBig(64),
+        ihrPriceFactor: src.loadUint(32),
+        firstFrac: src.loadUint(16),
+        nextFrac: src.loadUint(16),
+    }
+}
+
+function storeMsgForwardPrices(src: MsgForwardPrices) {
+    return (builder: Builder) => {
+        builder
+            .storeUint(0xea, 8)
+            .storeUint(src.lumpPrice, 64)
+            .storeUint(src.bitPrice, 64)
+            .storeUint(src.cellPrice, 64)
+            .storeUint(src.ihrPriceFactor, 32)
+            .storeUint(src.firstFrac, 16)
+            .storeUint(src.nextFrac, 16)
+    }
+}
+
+const sizeLimitsV2Fields: [keyof SizeLimits, number][] = [
+    ['maxAccStateCells', 32],
+    ['maxAccStateBits', 32],
+    ['maxAccPublicLibraries', 32],
+    ['deferOutQueueSizeLimit', 32],
+    ['maxMsgExtraCurrencies', 32],
+    ['maxAccFixedPrefixLength', 8],
+]
+
+function loadSizeLimits(src: Slice): SizeLimits {
+    const tag = src.loadUint(8)
+    if (tag !== 0x01 && tag !== 0x02) {
+        throw new Error(`Invalid SizeLimitsConfig tag 0x${tag.toString(16)}`)
+    }
+    const limits: SizeLimits = {
+        maxMsgBits: src.loadUint(32),
+        maxMsgCells: src.loadUint(32),
+        maxLibraryCells: src.loadUint(32),
+        maxVmDataDepth: src.loadUint(16),
+        maxExtMsgSize: src.loadUint(32),
+        maxExtMsgDepth: src.loadUint(16),
+    }
+    if (tag === 0x02) {
+        for (const [field, bits] of sizeLimitsV2Fields) {
+            if (src.remainingBits < bits) {
+                break
+            }
+            limits[field] = src.loadUint(bits)
+        }
+    }
+    return limits
+}
+
+function storeSizeLimits(src: SizeLimits) {
+    return (builder: Builder) => {
+        const v2 = sizeLimitsV2Fields.filter(([field]) => src[field] !== undefined)
+        builder
+            .storeUint(v2.length > 0 ? 0x02 : 0x01, 8)
+            .storeUint(src.maxMsgBits, 32)
+            .storeUint(src.maxMsgCells, 32)
+            .storeUint(src.maxLibraryCells, 32)
+            .storeUint(src.maxVmDataDepth, 16)
+            .storeUint(src.maxExtMsgSize, 32)
+            .storeUint(src.maxExtMsgDepth, 16)
+        if (v2.length === 0) {
+            return
+        }
+        // Fields of v2 are positional, so every field up to the last set one has to be stored
+        const last = sizeLimitsV2Fields.indexOf(v2[v2.length - 1])
+        for (const [field, bits] of sizeLimitsV2Fields.slice(0, last + 1)) {
+            const value = src[field]
+            if (value === undefined) {
+                throw new Error(`Size limit ${field} has to be set when later limits are set`)
+            }
+            builder.storeUint(value, bits)
+        }
+    }
+}
+
+function gasParamId(workchain: number) {
+    return workchain === -1 ? 20 : 21
+}
+
+function msgPricesParamId(workchain: number) {
+    return workchain === -1 ? 24 : 25
+}
+
+/**
+ * Reads and modifies individual params of network config. Usually used via {@link Blockchain.updateConfig}:
+ * ```ts
+ * blockchain.updateConfig((config) => {
+ *     const gas = config.getGasPrices(0);
+ *     config.setGasPrices(0, { ...gas, gasPrice: gas.gasPrice * 2n });
+ * });
+ * ```
+ */
+export class BlockchainConfigEditor {
+    protected params: Dictionary<number, Cell>
+
+    constructor(config: Cell) {
+        this.params = loadConfigParams(config)
+    }
+
+    /**
+     * @returns Raw config param, undefined if it is not set
+     */
+    get(id: number): Cell | undefined {
+        return this.params.get(id)
+    }
+
+    /**
+     * Sets raw config param.
+     */
+    set(id: number, value: Cell): this {
+        this.params.set(id, value)
+        return this
+    }
+
+    /**
+     * Removes config param.
+     */
+    delete(id: number): this {
+        this.params.delete(id)
+        return this
+    }
+
+    protected require(id: number): Slice {
+        const param = this.get(id)
+        if (param === undefined) {
+            throw new Error(`Config param ${id} is not set`)
+        }
+        return param.beginParse()
+    }
+
+    getGlobalVersion(): GlobalVersion {
+        const src = this.require(8)
+        expectTag(src, 0xc4, 'GlobalVersion')
+        return {
+            version: src.loadUint(32),
+            capabilities: src.loadUintBig(64),
+        }
+    }
+
+    setGlobalVersion(value: GlobalVersion): this {
+        return this.set(8, beginCell().storeUint(0xc4, 8).storeUint(value.version, 32).storeUint(value.capabilities, 64).endCell())
+    }
+
+    /**
+     * @returns Storage prices in the order they are stored, every entry is valid since its `utimeSince`
+     */
+    getStoragePrices(): StoragePrices[] {
+        const dict = Dictionary.loadDirect(Dictionary.Keys.Uint(32), StoragePricesValue, this.get(18) ?? null)
+        return dict.keys().sort((a, b) => a - b).map(k => dict.get(k)!)
+    }
+
+    setStoragePrices(value: StoragePrices[]): this {
+        if (value.length === 0) {
+            throw new Error('At least one storage prices entry is required')
+        }
+        const dict = Dictionary.empty(Dictionary.Keys.Uint(32), StoragePricesValue)
+        value.forEach((prices, i) => dict.set(i, prices))
+        return this.set(18, beginCell().storeDictDirect(dict).endCell())
+    }
+
+    /**
+     * @param workchain -1 for masterchain prices (param 20), any other workchain for basechain prices (param 21)
+     */
+    getGasPrices(workchain: number): GasLimitsPrices {
+        return loadGasLimitsPrices(this.require(gasParamId(workchain)))
+    }
+
+    setGasPrices(workchain: number, value: GasLimitsPrices): this {
+        return this.set(gasParamId(workchain), beginCell().store(storeGasLimitsPrices(value)).endCell())
+    }
+
+    /**
+     * @param workchain -1 for masterchain prices (param 24), any other workchain for basechain prices (param 25)
+     */
+    getMsgPrices(workchain: number): MsgForwardPrices {
+        return loadMsgForwardPrices(this.require(msgPricesParamId(workchain)))
+    }
+
+    setMsgPrices(workchain: number, value: MsgForwardPrices): this {
+        return this.set(msgPricesParamId(workchain), beginCell().store(storeMsgForwardPrices(value)).endCell())
+    }
+
+    /**
+     * @returns Size limits, undefined if param 43 is not set and default limits are used
+     */
+    getSizeLimits(): SizeLimits | undefined {
+        const param = this.get(43)
+        return param === undefined ? undefined : loadSizeLimits(param.beginParse())
+    }
+
+    setSizeLimits(value: SizeLimits): this {
+        return this.set(43, beginCell().store(storeSizeLimits(value)).endCell())
+    }
+
+    /**
+     * @returns Config cell with all modifications applied
+     */
+    build(): Cell {
+        return beginCell().storeDictDirect(this.params).endCell()
+    }
+}
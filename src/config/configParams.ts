@@ -0,0 +1,26 @@
+import { Address, Cell, Dictionary, DictionaryValue } from "@ton/core";
+
+const TrueValue: DictionaryValue<true> = {
+    serialize: () => {},
+    parse: () => true,
+}
+
+export function loadConfigParams(config: Cell): Dictionary<number, Cell> {
+    return Dictionary.loadDirect(Dictionary.Keys.Int(32), Dictionary.Values.Cell(), config)
+}
+
+export function getConfigParam(config: Cell, id: number): Cell | undefined {
+    return loadConfigParams(config).get(id)
+}
+
+/**
+ * @returns Masterchain addresses listed in config param 31 (`fundamental_smc_addr`)
+ */
+export function loadFundamentalAddresses(config: Cell): Address[] {
+    const param = getConfigParam(config, 31)
+    if (param === undefined) {
+        return []
+    }
+    const dict = param.beginParse().loadDict(Dictionary.Keys.BigUint(256), TrueValue)
+    return dict.keys().map(hash => new Address(-1, Buffer.from(hash.toString(16).padStart(64, '0'), 'hex')))
+}
@@ -0,0 +1,49 @@
+import { Coverage } from "./Coverage";
+import { ContractDebugInfo } from "./DebugInfo";
+
+describe('Coverage', () => {
+    const cell = 'AB'.repeat(32)
+    const log = (offsets: number[]) => offsets.map(offset => `code cell hash: ${cell} offset: ${offset}\nexecute NOP`).join('\n')
+
+    // if (x) { a } else { b } at line 2, a at line 3, b at line 5
+    const debugInfo: ContractDebugInfo = {
+        marks: [
+            { cellHash: cell, offset: 0, location: { file: 'contracts/main.fc', line: 1 } },
+            { cellHash: cell, offset: 8, location: { file: 'contracts/main.fc', line: 3 }, branch: { line: 2, id: 0, arm: 0 } },
+            { cellHash: cell, offset: 16, location: { file: 'contracts/main.fc', line: 5 }, branch: { line: 2, id: 0, arm: 1 } },
+            { cellHash: cell, offset: 24, location: { file: 'contracts/lib/utils.fc', line: 7 } },
+        ],
+    }
+
+    it('should map executed instructions to lines and branches', () => {
+        const coverage = new Coverage()
+        coverage.addVmLog(log([0, 8]))
+        coverage.addVmLog(log([0, 24]))
+
+        expect(coverage.hits(cell, 0)).toBe(2)
+        expect(coverage.files([debugInfo])).toEqual([
+            { file: 'contracts/lib/utils.fc', lines: [{ line: 7, hits: 1 }], branches: [] },
+            {
+                file: 'contracts/main.fc',
+                lines: [{ line: 1, hits: 2 }, { line: 2, hits: 1 }, { line: 3, hits: 1 }, { line: 5, hits: 0 }],
+                branches: [{ line: 2, id: 0, arm: 0, hits: 1 }, { line: 2, id: 0, arm: 1, hits: 0 }],
+            },
+        ])
+    })
+
+    it('should emit lcov and cobertura reports', () => {
+        const coverage = Coverage.fromJSON(JSON.parse(JSON.stringify(new Coverage().merge([{ cellHash: cell, offset: 8, hits: 3 }]))))
+
+        expect(coverage.lcov([debugInfo])).toBe([
+            'TN:', 'SF:contracts/lib/utils.fc', 'DA:7,0', 'LF:1', 'LH:0', 'BRF:0', 'BRH:0', 'end_of_record',
+            'TN:', 'SF:contracts/main.fc', 'DA:1,0', 'DA:2,3', 'DA:3,3', 'DA:5,0', 'LF:4', 'LH:2', 'BRDA:2,0,0,3', 'BRDA:2,0,1,-', 'BRF:2', 'BRH:1', 'end_of_record',
+            '',
+        ].join('\n'))
+
+        const xml = coverage.cobertura([debugInfo])
+        expect(xml).toContain('<coverage lines-valid="5" lines-covered="2" line-rate="0.4000" branches-valid="2" branches-covered="1" branch-rate="0.5000"')
+        expect(xml).toContain('<package name="contracts/lib" line-rate="0.0000" branch-rate="1" complexity="0">')
+        expect(xml).toContain('<line number="2" hits="3" branch="true" condition-coverage="50% (1/2)"/>')
+        expect(xml).toContain('<line number="5" hits="0" branch="false"/>')
+    })
+})
@@ -0,0 +1,217 @@
+import { ContractDebugInfo, instructionKey } from "./DebugInfo";
+import { parseVmLog } from "./VmLog";
+
+/**
+ * @type CoverageData Executed instructions in a serializable form, used to save coverage of a test file and merge it with others.
+ */
+export type CoverageData = {
+    cellHash: string
+    offset: number
+    hits: number
+}[]
+
+/**
+ * @type FileCoverage Coverage of a source file.
+ * @property lines Lines that have instructions, with the number of times they were executed, sorted by line
+ * @property branches Arms of branching statements, with the number of times they were taken
+ */
+export type FileCoverage = {
+    file: string
+    lines: { line: number, hits: number }[]
+    branches: { line: number, id: number, arm: number, hits: number }[]
+}
+
+function rate(covered: number, valid: number): string {
+    return valid === 0 ? '1' : (covered / valid).toFixed(4)
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function fileStats(file: FileCoverage) {
+    return {
+        linesValid: file.lines.length,
+        linesCovered: file.lines.filter(l => l.hits > 0).length,
+        branchesValid: file.branches.length,
+        branchesCovered: file.branches.filter(b => b.hits > 0).length,
+    }
+}
+
+/**
+ * Collects instructions executed by contracts and maps them to source lines and branches using debug info. Usually collected by {@link Blockchain.coverage}:
+ * ```ts
+ * const coverage = new Coverage();
+ * const blockchain = await Blockchain.create({ coverage });
+ * // ... run tests
+ * await writeFile('lcov.info', coverage.lcov([debugInfo]));
+ * ```
+ */
+export class Coverage {
+    protected executed: Map<string, { cellHash: string, offset: number, hits: number }> = new Map()
+
+    /**
+     * Adds instructions executed in VM logs of `'vm_logs_location'` or higher verbosity.
+     */
+    addVmLog(log: string) {
+        for (const step of parseVmLog(log).steps) {
+            if (step.location !== undefined) {
+                this.addHits(step.location.cellHash, step.location.offset, 1)
+            }
+        }
+    }
+
+    /**
+     * @returns Number of times instruction at the given code cell and offset was executed
+     */
+    hits(cellHash: string, offset: number): number {
+        return this.executed.get(instructionKey(cellHash, offset))?.hits ?? 0
+    }
+
+    /**
+     * Adds hits of other coverage, for example one saved by another test file.
+     */
+    merge(other: Coverage | CoverageData): this {
+        for (const entry of other instanceof Coverage ? other.toJSON() : other) {
+            this.addHits(entry.cellHash, entry.offset, entry.hits)
+        }
+        return this
+    }
+
+    toJSON(): CoverageData {
+        return Array.from(this.executed.values()).map(e => ({ ...e }))
+    }
+
+    static fromJSON(data: CoverageData): Coverage {
+        return new Coverage().merge(data)
+    }
+
+    /**
+     * Maps executed instructions to sources. A line or branch arm is executed if any instruction marked with it was executed.
+     *
+     * @param debugInfo Debug info of contracts to report
+     * @returns Coverage of every file mentioned in debug info, sorted by file path
+     */
+    files(debugInfo: ContractDebugInfo[]): FileCoverage[] {
+        const files = new Map<string, { lines: Map<number, number>, branches: Map<string, { line: number, id: number, arm: number, hits: number }> }>()
+        for (const mark of debugInfo.flatMap(info => info.marks)) {
+            let file = files.get(mark.location.file)
+            if (file === undefined) {
+                file = { lines: new Map(), branches: new Map() }
+                files.set(mark.location.file, file)
+            }
+            const hits = this.hits(mark.cellHash, mark.offset)
+            file.lines.set(mark.location.line, Math.max(file.lines.get(mark.location.line) ?? 0, hits))
+            if (mark.branch !== undefined) {
+                const key = `${mark.branch.id}:${mark.branch.arm}`
+                const branch = file.branches.get(key) ?? { ...mark.branch, hits: 0 }
+                branch.hits = Math.max(branch.hits, hits)
+                file.branches.set(key, branch)
+                // Taking any arm means the branching statement itself was executed
+                file.lines.set(mark.branch.line, Math.max(file.lines.get(mark.branch.line) ?? 0, hits))
+            }
+        }
+
+        return Array.from(files.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([file, { lines, branches }]) => ({
+            file,
+            lines: Array.from(lines.entries()).sort(([a], [b]) => a - b).map(([line, hits]) => ({ line, hits })),
+            branches: Array.from(branches.values()).sort((a, b) => a.line - b.line || a.id - b.id || a.arm - b.arm),
+        }))
+    }
+
+    /**
+     * @returns Coverage report in lcov format
+     */
+    lcov(debugInfo: ContractDebugInfo[]): string {
+        const records = this.files(debugInfo).map(file => {
+            const stats = fileStats(file)
+            return [
+                'TN:',
+                `SF:${file.file}`,
+                ...file.lines.map(l => `DA:${l.line},${l.hits}`),
+                `LF:${stats.linesValid}`,
+                `LH:${stats.linesCovered}`,
+                ...file.branches.map(b => `BRDA:${b.line},${b.id},${b.arm},${b.hits > 0 ? b.hits : '-'}`),
+                `BRF:${stats.branchesValid}`,
+                `BRH:${stats.branchesCovered}`,
+                'end_of_record',
+            ].join('\n')
+        })
+        return records.map(r => r + '\n').join('')
+    }
+
+    /**
+     * @returns Coverage report in Cobertura XML format, files are grouped into packages by directory
+     */
+    cobertura(debugInfo: ContractDebugInfo[]): string {
+        const files = this.files(debugInfo)
+        const total = { linesValid: 0, linesCovered: 0, branchesValid: 0, branchesCovered: 0 }
+        const packages = new Map<string, FileCoverage[]>()
+        for (const file of files) {
+            const stats = fileStats(file)
+            total.linesValid += stats.linesValid
+            total.linesCovered += stats.linesCovered
+            total.branchesValid += stats.branchesValid
+            total.branchesCovered += stats.branchesCovered
+            const slash = file.file.lastIndexOf('/')
+            const dir = slash === -1 ? '.' : file.file.slice(0, slash)
+            packages.set(dir, [...(packages.get(dir) ?? []), file])
+        }
+
+        const classXml = (file: FileCoverage) => {
+            const stats = fileStats(file)
+            const lines = file.lines.map(l => {
+                const arms = file.branches.filter(b => b.line === l.line)
+                if (arms.length === 0) {
+                    return `          <line number="${l.line}" hits="${l.hits}" branch="false"/>`
+                }
+                const taken = arms.filter(b => b.hits > 0).length
+                return `          <line number="${l.line}" hits="${l.hits}" branch="true" condition-coverage="${Math.floor(taken * 100 / arms.length)}% (${taken}/${arms.length})"/>`
+            })
+            return [
+                `      <class name="${escapeXml(file.file)}" filename="${escapeXml(file.file)}" line-rate="${rate(stats.linesCovered, stats.linesValid)}" branch-rate="${rate(stats.branchesCovered, stats.branchesValid)}" complexity="0">`,
+                '        <methods/>',
+                '        <lines>',
+                ...lines,
+                '        </lines>',
+                '      </class>',
+            ].join('\n')
+        }
+
+        const packageXml = ([dir, files]: [string, FileCoverage[]]) => {
+            const stats = files.map(fileStats)
+            const sum = (key: keyof ReturnType<typeof fileStats>) => stats.reduce((acc, s) => acc + s[key], 0)
+            return [
+                `  <package name="${escapeXml(dir)}" line-rate="${rate(sum('linesCovered'), sum('linesValid'))}" branch-rate="${rate(sum('branchesCovered'), sum('branchesValid'))}" complexity="0">`,
+                '    <classes>',
+                ...files.map(classXml),
+                '    </classes>',
+                '  </package>',
+            ].join('\n')
+        }
+
+        return [
+            '<?xml version="1.0" ?>',
+            '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+            `<coverage lines-valid="${total.linesValid}" lines-covered="${total.linesCovered}" line-rate="${rate(total.linesCovered, total.linesValid)}" branches-valid="${total.branchesValid}" branches-covered="${total.branchesCovered}" branch-rate="${rate(total.branchesCovered, total.branchesValid)}" timestamp="${Date.now()}" complexity="0" version="0.1">`,
+            '<sources>',
+            '  <source>.</source>',
+            '</sources>',
+            '<packages>',
+            ...Array.from(packages.entries()).map(packageXml),
+            '</packages>',
+            '</coverage>',
+            '',
+        ].join('\n')
+    }
+
+    protected addHits(cellHash: string, offset: number, hits: number) {
+        const key = instructionKey(cellHash, offset)
+        const entry = this.executed.get(key)
+        if (entry === undefined) {
+            this.executed.set(key, { cellHash: cellHash.toLowerCase(), offset, hits })
+        } else {
+            entry.hits += hits
+        }
+    }
+}
@@ -0,0 +1,74 @@
+import { DebugInfoRegistry, formatFailureReport } from "./DebugInfo";
+
+describe('DebugInfoRegistry', () => {
+    const codeHash = Buffer.alloc(32, 1)
+    const cell = 'AB'.repeat(32)
+    const log = [
+        `code cell hash: ${cell} offset: 0`,
+        'execute SETCP 0',
+        `code cell hash: ${cell} offset: 16`,
+        'execute PUSHINT 5',
+        `code cell hash: ${cell} offset: 24`,
+        'execute CALLDICT 1',
+        `code cell hash: ${cell} offset: 40`,
+        'execute PUSHINT 1001',
+        `code cell hash: ${cell} offset: 64`,
+        'execute THROWANY',
+        'handling exception code 1001: unknown error',
+        'default exception handler, terminating vm with exit code 1001',
+    ].join('\n')
+
+    function registry() {
+        const registry = new DebugInfoRegistry()
+        registry.register(codeHash, {
+            marks: [
+                { cellHash: cell, offset: 0, location: { file: 'main.fc', line: 1 }, function: 'recv_internal' },
+                { cellHash: cell, offset: 24, location: { file: 'main.fc', line: 2 }, function: 'recv_internal' },
+                { cellHash: cell, offset: 40, location: { file: 'main.fc', line: 6, column: 5 }, function: 'withdraw' },
+            ],
+            exitCodes: { 1001: 'NotEnoughFunds' },
+            sources: { 'main.fc': 'recv_internal() {\n  withdraw();\n}\n\nwithdraw() {\n    throw(1001);\n}\n' },
+        })
+        return registry
+    }
+
+    it('should report failures', () => {
+        const report = registry().report(codeHash, log, 1001)
+
+        expect(report).toEqual({
+            exitCode: 1001,
+            exitCodeName: 'NotEnoughFunds',
+            location: { file: 'main.fc', line: 6, column: 5 },
+            callStack: [
+                { function: 'withdraw', location: { file: 'main.fc', line: 6, column: 5 } },
+                { function: 'recv_internal', location: { file: 'main.fc', line: 2 } },
+            ],
+            lines: [
+                { location: { file: 'main.fc', line: 1 }, text: 'recv_internal() {' },
+                { location: { file: 'main.fc', line: 2 }, text: '  withdraw();' },
+                { location: { file: 'main.fc', line: 6, column: 5 }, text: '    throw(1001);' },
+            ],
+        })
+        expect(formatFailureReport(report!)).toBe([
+            'Exit code 1001 (NotEnoughFunds) at main.fc:6:5',
+            'Call stack:',
+            '    at withdraw (main.fc:6:5)',
+            '    at recv_internal (main.fc:2)',
+            'Last executed lines:',
+            '    main.fc:1 | recv_internal() {',
+            '    main.fc:2 |   withdraw();',
+            '    main.fc:6 |     throw(1001);',
+        ].join('\n'))
+    })
+
+    it('should keep last lines only', () => {
+        const debugInfo = registry()
+        debugInfo.reportLines = 1
+
+        const report = debugInfo.report(Buffer.alloc(32), log, 9)
+
+        expect(report?.exitCodeName).toBe('Cell underflow')
+        expect(report?.lines.map(l => l.location.line)).toEqual([6])
+        expect(new DebugInfoRegistry().report(codeHash, log, 1001)).toBeUndefined()
+    })
+})
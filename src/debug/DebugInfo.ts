@@ -0,0 +1,273 @@
+import { parseVmLog } from "./VmLog";
+
+/**
+ * @type SourceLocation Position in contract sources.
+ * @property {string} file Path of the source file, as it should appear in reports
+ * @property {number} line Line number, starting from 1
+ * @property {number} column Column number, starting from 1
+ */
+export type SourceLocation = {
+    file: string
+    line: number
+    column?: number
+}
+
+/**
+ * @type DebugMark Maps instruction at the given code cell and offset to the source it was compiled from. Usually produced from compiler debug info or source maps.
+ * @property {string} cellHash Hex hash of the code cell containing the instruction
+ * @property {number} offset Offset of the instruction in the cell, in bits, as printed in VM logs
+ * @property {SourceLocation} location Source of the instruction
+ * @property {string} function Name of the function the instruction belongs to
+ * @property branch Branch started by the instruction: `line` is the line of the branching statement, `id` identifies the statement within the file,
+ * `arm` is the index of the branch taken
+ */
+export type DebugMark = {
+    cellHash: string
+    offset: number
+    location: SourceLocation
+    function?: string
+    branch?: {
+        line: number
+        id: number
+        arm: number
+    }
+}
+
+/**
+ * @type ContractDebugInfo Debug info of contract code.
+ * @property {DebugMark[]} marks Source locations of instructions
+ * @property exitCodes Names of custom exit codes, for example built from the `errors` map of Tact ABI
+ * @property sources Contents of source files keyed by file path, used to show source lines in failure reports
+ */
+export type ContractDebugInfo = {
+    marks: DebugMark[]
+    exitCodes?: { [code: number]: string }
+    sources?: { [file: string]: string }
+}
+
+/**
+ * @type FailureReportFrame Function in the call stack of a failure.
+ */
+export type FailureReportFrame = {
+    function?: string
+    location: SourceLocation
+}
+
+/**
+ * @type FailureReport Source-level description of a failed transaction or get method.
+ * @property {number} exitCode Exit code of the VM
+ * @property {string} exitCodeName Name of the exit code from contract debug info, or of the standard TVM exit code
+ * @property {SourceLocation} location Source location of the instruction that threw the exception, or of the last executed instruction with known location
+ * @property {FailureReportFrame[]} callStack Functions that were being executed, innermost first. Reconstructed from function names of debug marks
+ * @property lines Last executed source lines, oldest first, with their text if sources are known
+ */
+export type FailureReport = {
+    exitCode?: number
+    exitCodeName?: string
+    location?: SourceLocation
+    callStack: FailureReportFrame[]
+    lines: { location: SourceLocation, text?: string }[]
+}
+
+/**
+ * @returns Key identifying instruction at the given code cell and offset
+ */
+export function instructionKey(cellHash: string, offset: number): string {
+    return `${cellHash.toLowerCase()}:${offset}`
+}
+
+const tvmExitCodes: { [code: number]: string } = {
+    [-14]: 'Out of gas',
+    2: 'Stack underflow',
+    3: 'Stack overflow',
+    4: 'Integer overflow',
+    5: 'Integer out of expected range',
+    6: 'Invalid opcode',
+    7: 'Type check error',
+    8: 'Cell overflow',
+    9: 'Cell underflow',
+    10: 'Dictionary error',
+    11: 'Unknown error',
+    12: 'Fatal error',
+    13: 'Out of gas',
+    14: 'Virtualization error',
+}
+
+function formatLocation(location: SourceLocation): string {
+    return `${location.file}:${location.line}` + (location.column === undefined ? '' : `:${location.column}`)
+}
+
+/**
+ * Formats failure report the way it is shown in messages of {@link EmulationError} and {@link GetMethodError}.
+ */
+export function formatFailureReport(report: FailureReport): string {
+    const lines: string[] = []
+    let header = report.exitCode === undefined ? 'Failed' : `Exit code ${report.exitCode}`
+    if (report.exitCodeName !== undefined) {
+        header += ` (${report.exitCodeName})`
+    }
+    if (report.location !== undefined) {
+        header += ` at ${formatLocation(report.location)}`
+    }
+    lines.push(header)
+    if (report.callStack.length > 0) {
+        lines.push('Call stack:')
+        for (const frame of report.callStack) {
+            lines.push(`    at ${frame.function ?? '<unknown>'} (${formatLocation(frame.location)})`)
+        }
+    }
+    if (report.lines.length > 0) {
+        lines.push('Last executed lines:')
+        const width = Math.max(...report.lines.map(l => `${l.location.file}:${l.location.line}`.length))
+        for (const line of report.lines) {
+            const position = `${line.location.file}:${line.location.line}`.padEnd(width)
+            lines.push(line.text === undefined ? `    ${position}` : `    ${position} | ${line.text}`)
+        }
+    }
+    return lines.join('\n')
+}
+
+/**
+ * Debug info of contracts keyed by code hash. Used by {@link Blockchain} to describe failures of transactions and get methods in terms of sources.
+ */
+export class DebugInfoRegistry {
+    protected infos: Map<string, ContractDebugInfo> = new Map()
+    protected marks: Map<string, DebugMark[]> = new Map()
+    protected lineCount = 10
+
+    /**
+     * @returns Number of last executed source lines included in failure reports
+     */
+    get reportLines(): number {
+        return this.lineCount
+    }
+
+    set reportLines(value: number) {
+        this.lineCount = value
+    }
+
+    register(codeHash: Buffer, info: ContractDebugInfo) {
+        this.infos.set(codeHash.toString('hex'), info)
+        this.indexMarks()
+    }
+
+    unregister(codeHash: Buffer) {
+        if (this.infos.delete(codeHash.toString('hex'))) {
+            this.indexMarks()
+        }
+    }
+
+    get(codeHash: Buffer): ContractDebugInfo | undefined {
+        return this.infos.get(codeHash.toString('hex'))
+    }
+
+    has(codeHash: Buffer): boolean {
+        return this.infos.has(codeHash.toString('hex'))
+    }
+
+    /**
+     * @returns Debug info of all registered contracts, for example to build coverage reports
+     */
+    list(): ContractDebugInfo[] {
+        return Array.from(this.infos.values())
+    }
+
+    /**
+     * @returns Mark of the instruction at the given code cell and offset, or the closest mark before it in the same cell
+     */
+    findMark(cellHash: string, offset: number): DebugMark | undefined {
+        const marks = this.marks.get(cellHash.toLowerCase())
+        if (marks === undefined) {
+            return undefined
+        }
+        let found: DebugMark | undefined = undefined
+        for (const mark of marks) {
+            if (mark.offset > offset) {
+                break
+            }
+            found = mark
+        }
+        return found
+    }
+
+    /**
+     * Describes failure of a VM run in terms of sources.
+     *
+     * @param codeHash Hash of the code of the failed contract, used to name custom exit codes
+     * @param vmLogs VM logs of `'vm_logs_location'` or higher verbosity
+     * @param exitCode Exit code of the VM
+     * @returns Report, undefined if none of the executed instructions has known location
+     */
+    report(codeHash: Buffer | undefined, vmLogs: string, exitCode?: number): FailureReport | undefined {
+        if (this.infos.size === 0) {
+            return undefined
+        }
+        const callStack: FailureReportFrame[] = []
+        const lines: { location: SourceLocation, text?: string }[] = []
+        let location: SourceLocation | undefined = undefined
+
+        for (const step of parseVmLog(vmLogs).steps) {
+            const mark = step.location === undefined ? undefined : this.findMark(step.location.cellHash, step.location.offset)
+            if (mark !== undefined) {
+                location = mark.location
+                this.trace(mark, callStack, lines)
+            }
+            if (step.exception !== undefined) {
+                break
+            }
+        }
+
+        if (location === undefined) {
+            return undefined
+        }
+        const names = codeHash === undefined ? undefined : this.get(codeHash)?.exitCodes
+        return {
+            exitCode,
+            exitCodeName: exitCode === undefined ? undefined : (names?.[exitCode] ?? tvmExitCodes[exitCode]),
+            location,
+            callStack: callStack.reverse(),
+            lines,
+        }
+    }
+
+    protected trace(mark: DebugMark, callStack: FailureReportFrame[], lines: { location: SourceLocation, text?: string }[]) {
+        // Returning to a function that is already on the stack pops the frames above it, any other function is treated as called
+        const depth = callStack.findIndex(frame => frame.function === mark.function)
+        if (depth === -1) {
+            callStack.push({ function: mark.function, location: mark.location })
+        } else {
+            callStack.splice(depth + 1)
+            callStack[depth].location = mark.location
+        }
+
+        const last = lines[lines.length - 1]
+        if (last === undefined || last.location.file !== mark.location.file || last.location.line !== mark.location.line) {
+            lines.push({ location: mark.location, text: this.sourceLine(mark.location) })
+            if (lines.length > this.lineCount) {
+                lines.shift()
+            }
+        }
+    }
+
+    protected sourceLine(location: SourceLocation): string | undefined {
+        for (const info of this.infos.values()) {
+            const source = info.sources?.[location.file]
+            if (source !== undefined) {
+                return source.split('\n')[location.line - 1]?.trimEnd()
+            }
+        }
+        return undefined
+    }
+
+    protected indexMarks() {
+        const marks = new Map<string, DebugMark[]>()
+        for (const mark of Array.from(this.infos.values()).flatMap(info => info.marks)) {
+            const cellHash = mark.cellHash.toLowerCase()
+            const list = marks.get(cellHash) ?? []
+            list.push(mark)
+            marks.set(cellHash, list)
+        }
+        marks.forEach(list => list.sort((a, b) => a.offset - b.offset))
+        this.marks = marks
+    }
+}
@@ -0,0 +1,64 @@
+import { beginCell, Cell } from "@ton/core";
+import { TreasuryContract } from "../treasury/Treasury";
+import { annotateVmLog, disassemble, disassembleInstructions, formatAnnotatedVmLog } from "./Disassembler";
+
+describe('Disassembler', () => {
+    it('should disassemble method dictionary', () => {
+        const text = disassemble(TreasuryContract.code)
+
+        expect(text).not.toContain('unknown opcode')
+        expect(text.startsWith('SETCP0\n(:methods\n  recv_external (-1):\n    256 LDU\n')).toBe(true)
+        expect(text).toContain('  recv_internal (0):\n    DROP\n) 19 DICTPUSHCONST\nDICTIGETJMPZ\n11 THROWARG')
+        expect(text).toContain('      <{\n        s2 POP\n      }> PUSHCONT\n      IFELSE\n')
+    })
+
+    it('should decode arguments and refs', () => {
+        const code = beginCell()
+            .storeUint(0x82, 8).storeUint(0, 5).storeInt(-100000, 19)
+            .storeUint(0x8B, 8).storeUint(0, 4).storeUint(0b1011, 4)
+            .storeUint(0xF2C8 >> 3, 13).storeUint(1000, 11)
+            .storeUint(0xB7A0, 16)
+            .storeRef(beginCell().storeUint(0xDB30, 16))
+            .endCell()
+
+        expect(disassemble(code)).toBe([
+            '-100000 PUSHINT',
+            'x{B_} PUSHSLICE',
+            '1000 THROWARG',
+            'QADD',
+            '<{',
+            '  RET',
+            '}> // implicit JMPREF',
+        ].join('\n'))
+        expect(disassemble(beginCell().storeUint(0xFC00, 16).endCell())).toBe('x{FC00} // unknown opcode')
+    })
+
+    it('should annotate VM log steps', () => {
+        const instructions = disassembleInstructions(TreasuryContract.code)
+        const root = TreasuryContract.code.hash().toString('hex')
+        expect(instructions.filter(i => i.cellHash === root).map(i => [i.offset, i.text])).toEqual([
+            [0, 'SETCP0'],
+            [16, '(:methods ...) 19 DICTPUSHCONST'],
+            [40, 'DICTIGETJMPZ'],
+            [56, '11 THROWARG'],
+        ])
+
+        const log = [
+            `code cell hash: ${root.toUpperCase()} offset: 40`,
+            'execute DICTIGETJMPZ',
+            'code cell hash: ' + Cell.EMPTY.hash().toString('hex').toUpperCase() + ' offset: 0',
+            'execute implicit RET',
+        ].join('\n')
+        const steps = annotateVmLog(log, TreasuryContract.code, { context: 1 })
+
+        expect(steps[1].disassembly).toBeUndefined()
+        expect(formatAnnotatedVmLog(steps)).toBe([
+            'execute DICTIGETJMPZ',
+            '     16  (:methods ...) 19 DICTPUSHCONST',
+            '>    40  DICTIGETJMPZ',
+            '     56  11 THROWARG',
+            '',
+            'execute implicit RET',
+        ].join('\n'))
+    })
+})
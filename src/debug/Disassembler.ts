@@ -0,0 +1,665 @@
+import { BitString, Cell } from "@ton/core";
+import { getSelectorForMethod } from "../utils/selector";
+import { parseVmLog, VmLogStep } from "./VmLog";
+
+/**
+ * @type DisassembleParams Params of {@link disassemble}.
+ * @property {string[]} methods Names of methods of the contract. Ids of method dictionary entries are resolved to these names, in addition to
+ * `recv_internal`, `recv_external`, `run_ticktock` and common get methods
+ */
+export type DisassembleParams = {
+    methods?: string[]
+}
+
+/**
+ * @type DisassembledInstruction Instruction of contract code.
+ * @property {string} cellHash Hex hash of the code cell containing the instruction
+ * @property {number} offset Offset of the instruction in the cell, in bits, as printed in VM logs
+ * @property {number} length Length of the instruction, in bits
+ * @property {string} text Instruction in Fift assembler notation. Nested continuations are shortened to `<{...}>`
+ */
+export type DisassembledInstruction = {
+    cellHash: string
+    offset: number
+    length: number
+    text: string
+}
+
+/**
+ * @type AnnotatedVmLogStep VM log step with disassembly of the code around the executed instruction.
+ * @property disassembly Instructions of the code cell around the executed one, undefined if the step has no location or the cell is not part of the code
+ */
+export type AnnotatedVmLogStep = VmLogStep & {
+    disassembly?: (DisassembledInstruction & { current: boolean })[]
+}
+
+const defaultMethods = [
+    'recv_internal', 'recv_external', 'run_ticktock', 'split_prepare', 'split_install',
+    'seqno', 'get_public_key', 'get_subwallet_id', 'get_plugin_list', 'is_plugin_installed',
+    'get_jetton_data', 'get_wallet_address', 'get_wallet_data',
+    'get_collection_data', 'get_nft_address_by_index', 'get_nft_content', 'get_nft_data', 'royalty_params',
+]
+
+const specialMethodIds: { [id: number]: string } = {
+    [-2]: 'run_ticktock',
+    [-3]: 'split_prepare',
+    [-4]: 'split_install',
+}
+
+/**
+ * Part of a code cell: bits from `bit` to `bitEnd` and refs from `ref` to `refEnd`. Offsets are relative to the start of the cell,
+ * the same way the VM reports them.
+ */
+class CodeCursor {
+    constructor(
+        readonly cell: Cell,
+        public bit: number,
+        readonly bitEnd: number,
+        public ref: number,
+        readonly refEnd: number,
+    ) {
+    }
+
+    static of(cell: Cell): CodeCursor {
+        return new CodeCursor(cell, 0, cell.bits.length, 0, cell.refs.length)
+    }
+
+    get remainingBits(): number {
+        return this.bitEnd - this.bit
+    }
+
+    get remainingRefs(): number {
+        return this.refEnd - this.ref
+    }
+
+    preloadBits(bits: number): string {
+        let result = ''
+        for (let i = 0; i < bits; i++) {
+            result += this.cell.bits.at(this.bit + i) ? '1' : '0'
+        }
+        return result
+    }
+
+    loadBigUint(bits: number): bigint {
+        if (bits > this.remainingBits) {
+            throw new Error('Cell underflow')
+        }
+        let result = 0n
+        for (let i = 0; i < bits; i++) {
+            result = (result << 1n) | (this.cell.bits.at(this.bit++) ? 1n : 0n)
+        }
+        return result
+    }
+
+    loadUint(bits: number): number {
+        return Number(this.loadBigUint(bits))
+    }
+
+    loadBigInt(bits: number): bigint {
+        const value = this.loadBigUint(bits)
+        return bits > 0 && value >= (1n << BigInt(bits - 1)) ? value - (1n << BigInt(bits)) : value
+    }
+
+    loadInt(bits: number): number {
+        return Number(this.loadBigInt(bits))
+    }
+
+    loadBits(bits: number): BitString {
+        if (bits > this.remainingBits) {
+            throw new Error('Cell underflow')
+        }
+        const result = this.cell.bits.substring(this.bit, bits)
+        this.bit += bits
+        return result
+    }
+
+    loadRef(): Cell {
+        if (this.remainingRefs === 0) {
+            throw new Error('Cell underflow')
+        }
+        return this.cell.refs[this.ref++]
+    }
+
+    /**
+     * Takes the next bits and refs as a separate cursor.
+     */
+    split(bits: number, refs: number): CodeCursor {
+        if (bits > this.remainingBits || refs > this.remainingRefs) {
+            throw new Error('Cell underflow')
+        }
+        const cursor = new CodeCursor(this.cell, this.bit, this.bit + bits, this.ref, this.ref + refs)
+        this.bit += bits
+        this.ref += refs
+        return cursor
+    }
+}
+
+type Block =
+    | { type: 'code', cursor: CodeCursor }
+    | { type: 'methods', dict: Cell, keyBits: number }
+    | { type: 'data', bits: BitString, refs: Cell[] }
+
+type Decoded = {
+    args: (string | Block)[]
+    name: string
+}
+
+type Handler = (c: CodeCursor) => Decoded
+
+function hexBits(hex: string, bits = hex.length * 4): string {
+    return hex.split('').map(h => parseInt(h, 16).toString(2).padStart(4, '0')).join('').slice(0, bits)
+}
+
+function s(i: number) {
+    return `s${i}`
+}
+
+const op = (name: string): Handler => () => ({ args: [], name })
+const withUint = (bits: number, name: string, add = 0): Handler => (c) => ({ args: [`${c.loadUint(bits) + add}`], name })
+const withInt = (bits: number, name: string): Handler => (c) => ({ args: [`${c.loadInt(bits)}`], name })
+const withRegs = (count: number, name: string, adjust: number[] = []): Handler => (c) => ({
+    args: Array.from({ length: count }, (_, i) => s(c.loadUint(4) - (adjust[i] ?? 0))),
+    name,
+})
+const codeRefs = (count: number, name: string): Handler => (c) => ({
+    args: Array.from({ length: count }, () => ({ type: 'code' as const, cursor: CodeCursor.of(c.loadRef()) })),
+    name,
+})
+const dataRefs = (count: number, name: string): Handler => (c) => ({
+    args: Array.from({ length: count }, () => {
+        const ref = c.loadRef()
+        return { type: 'data' as const, bits: ref.bits, refs: ref.refs }
+    }),
+    name,
+})
+
+/**
+ * Loads slice with completion tag: trailing zeros and the last one bit are not part of the data.
+ */
+function loadTaggedBits(c: CodeCursor, bits: number): BitString {
+    const raw = c.loadBits(bits)
+    let length = bits
+    while (length > 0 && !raw.at(length - 1)) {
+        length--
+    }
+    return raw.substring(0, Math.max(length - 1, 0))
+}
+
+const pushSlice = (refBits: number, refAdd: number, lenBits: number, lenMul: number, lenAdd: number): Handler => (c) => {
+    const refs = refBits === 0 ? 0 : c.loadUint(refBits) + refAdd
+    const bits = loadTaggedBits(c, c.loadUint(lenBits) * lenMul + lenAdd)
+    return { args: [{ type: 'data', bits, refs: Array.from({ length: refs }, () => c.loadRef()) }], name: 'PUSHSLICE' }
+}
+
+const simple: { [hex: string]: string } = {
+    '00': 'NOP', '01': 'SWAP', '58': 'ROT', '59': '-ROT', '5A': '2SWAP', '5B': '2DROP', '5C': '2DUP', '5D': '2OVER',
+    '60': 'PICK', '61': 'ROLLX', '62': '-ROLLX', '63': 'BLKSWX', '64': 'REVX', '65': 'DROPX', '66': 'TUCK', '67': 'XCHGX',
+    '68': 'DEPTH', '69': 'CHKDEPTH', '6A': 'ONLYTOPX', '6B': 'ONLYX', '6D': 'NULL', '6E': 'ISNULL',
+    '6F80': 'TUPLEVAR', '6F81': 'INDEXVAR', '6F82': 'UNTUPLEVAR', '6F83': 'UNPACKFIRSTVAR', '6F84': 'EXPLODEVAR', '6F85': 'SETINDEXVAR',
+    '6F86': 'INDEXVARQ', '6F87': 'SETINDEXVARQ', '6F88': 'TLEN', '6F89': 'QTLEN', '6F8A': 'ISTUPLE', '6F8B': 'LAST', '6F8C': 'TPUSH', '6F8D': 'TPOP',
+    '6FA0': 'NULLSWAPIF', '6FA1': 'NULLSWAPIFNOT', '6FA2': 'NULLROTRIF', '6FA3': 'NULLROTRIFNOT',
+    '6FA4': 'NULLSWAPIF2', '6FA5': 'NULLSWAPIFNOT2', '6FA6': 'NULLROTRIF2', '6FA7': 'NULLROTRIFNOT2',
+    '83FF': 'PUSHNAN',
+    'A0': 'ADD', 'A1': 'SUB', 'A2': 'SUBR', 'A3': 'NEGATE', 'A4': 'INC', 'A5': 'DEC', 'A8': 'MUL',
+    'A904': 'DIV', 'A905': 'DIVR', 'A906': 'DIVC', 'A908': 'MOD', 'A909': 'MODR', 'A90A': 'MODC', 'A90C': 'DIVMOD', 'A90D': 'DIVMODR', 'A90E': 'DIVMODC',
+    'A984': 'MULDIV', 'A985': 'MULDIVR', 'A986': 'MULDIVC', 'A988': 'MULMOD', 'A98C': 'MULDIVMOD',
+    'AC': 'LSHIFT', 'AD': 'RSHIFT', 'AE': 'POW2', 'B0': 'AND', 'B1': 'OR', 'B2': 'XOR', 'B3': 'NOT',
+    'B600': 'FITSX', 'B601': 'UFITSX', 'B602': 'BITSIZE', 'B603': 'UBITSIZE', 'B608': 'MIN', 'B609': 'MAX', 'B60A': 'MINMAX', 'B60B': 'ABS',
+    'B8': 'SGN', 'B9': 'LESS', 'BA': 'EQUAL', 'BB': 'LEQ', 'BC': 'GREATER', 'BD': 'NEQ', 'BE': 'GEQ', 'BF': 'CMP', 'C4': 'ISNAN', 'C5': 'CHKNAN',
+    'C700': 'SEMPTY', 'C701': 'SDEMPTY', 'C702': 'SREMPTY', 'C703': 'SDFIRST', 'C704': 'SDLEXCMP', 'C705': 'SDEQ',
+    'C708': 'SDPFX', 'C709': 'SDPFXREV', 'C70A': 'SDPPFX', 'C70B': 'SDPPFXREV', 'C70C': 'SDSFX', 'C70D': 'SDSFXREV', 'C70E': 'SDPSFX', 'C70F': 'SDPSFXREV',
+    'C710': 'SDCNTLEAD0', 'C711': 'SDCNTLEAD1', 'C712': 'SDCNTTRAIL0', 'C713': 'SDCNTTRAIL1',
+    'C8': 'NEWC', 'C9': 'ENDC', 'CC': 'STREF', 'CD': 'STBREFR', 'CE': 'STSLICE',
+    'CF00': 'STIX', 'CF01': 'STUX', 'CF02': 'STIXR', 'CF03': 'STUXR', 'CF04': 'STIXQ', 'CF05': 'STUXQ', 'CF06': 'STIXRQ', 'CF07': 'STUXRQ',
+    'CF10': 'STREF', 'CF11': 'STBREF', 'CF12': 'STSLICE', 'CF13': 'STB', 'CF14': 'STREFR', 'CF15': 'STBREFR', 'CF16': 'STSLICER', 'CF17': 'STBR',
+    'CF18': 'STREFQ', 'CF19': 'STBREFQ', 'CF1A': 'STSLICEQ', 'CF1B': 'STBQ', 'CF1C': 'STREFRQ', 'CF1D': 'STBREFRQ', 'CF1E': 'STSLICERQ', 'CF1F': 'STBRQ',
+    'CF23': 'ENDXC', 'CF28': 'STILE4', 'CF29': 'STULE4', 'CF2A': 'STILE8', 'CF2B': 'STULE8',
+    'CF30': 'BDEPTH', 'CF31': 'BBITS', 'CF32': 'BREFS', 'CF33': 'BBITREFS', 'CF35': 'BREMBITS', 'CF36': 'BREMREFS', 'CF37': 'BREMBITREFS',
+    'CF39': 'BCHKBITS', 'CF3A': 'BCHKREFS', 'CF3B': 'BCHKBITREFS', 'CF40': 'STZEROES', 'CF41': 'STONES', 'CF42': 'STSAME', 'CF50': 'BTOS',
+    'D0': 'CTOS', 'D1': 'ENDS', 'D4': 'LDREF', 'D5': 'LDREFRTOS',
+    'D700': 'LDIX', 'D701': 'LDUX', 'D702': 'PLDIX', 'D703': 'PLDUX', 'D704': 'LDIXQ', 'D705': 'LDUXQ', 'D706': 'PLDIXQ', 'D707': 'PLDUXQ',
+    'D718': 'LDSLICEX', 'D719': 'PLDSLICEX', 'D71A': 'LDSLICEXQ', 'D71B': 'PLDSLICEXQ',
+    'D720': 'SDCUTFIRST', 'D721': 'SDSKIPFIRST', 'D722': 'SDCUTLAST', 'D723': 'SDSKIPLAST', 'D724': 'SDSUBSTR', 'D726': 'SDBEGINSX', 'D727': 'SDBEGINSXQ',
+    'D730': 'SCUTFIRST', 'D731': 'SSKIPFIRST', 'D732': 'SCUTLAST', 'D733': 'SSKIPLAST', 'D734': 'SUBSLICE', 'D736': 'SPLIT', 'D737': 'SPLITQ',
+    'D739': 'XCTOS', 'D73A': 'XLOAD', 'D73B': 'XLOADQ',
+    'D741': 'SCHKBITS', 'D742': 'SCHKREFS', 'D743': 'SCHKBITREFS', 'D745': 'SCHKBITSQ', 'D746': 'SCHKREFSQ', 'D747': 'SCHKBITREFSQ',
+    'D748': 'PLDREFVAR', 'D749': 'SBITS', 'D74A': 'SREFS', 'D74B': 'SBITREFS', 'D760': 'LDZEROES', 'D761': 'LDONES', 'D762': 'LDSAME', 'D764': 'SDEPTH', 'D765': 'CDEPTH',
+    'D8': 'EXECUTE', 'D9': 'JMPX', 'DB30': 'RET', 'DB31': 'RETALT', 'DB32': 'RETBOOL', 'DB34': 'CALLCC', 'DB35': 'JMPXDATA',
+    'DB38': 'CALLXVARARGS', 'DB39': 'RETVARARGS', 'DB3A': 'JMPXVARARGS', 'DB3B': 'CALLCCVARARGS', 'DB3F': 'RETDATA',
+    'DC': 'IFRET', 'DD': 'IFNOTRET', 'DE': 'IF', 'DF': 'IFNOT', 'E0': 'IFJMP', 'E1': 'IFNOTJMP', 'E2': 'IFELSE',
+    'E304': 'CONDSEL', 'E305': 'CONDSELCHK', 'E308': 'IFRETALT', 'E309': 'IFNOTRETALT',
+    'E314': 'REPEATBRK', 'E315': 'REPEATENDBRK', 'E316': 'UNTILBRK', 'E317': 'UNTILENDBRK', 'E318': 'WHILEBRK', 'E319': 'WHILEENDBRK', 'E31A': 'AGAINBRK', 'E31B': 'AGAINENDBRK',
+    'E4': 'REPEAT', 'E5': 'REPEATEND', 'E6': 'UNTIL', 'E7': 'UNTILEND', 'E8': 'WHILE', 'E9': 'WHILEEND', 'EA': 'AGAIN', 'EB': 'AGAINEND',
+    'ED10': 'RETURNVARARGS', 'ED11': 'SETCONTVARARGS', 'ED12': 'SETNUMVARARGS', 'ED1E': 'BLESS', 'ED1F': 'BLESSVARARGS',
+    'EDE0': 'PUSHCTRX', 'EDE1': 'POPCTRX', 'EDE2': 'SETCONTCTRX',
+    'EDF0': 'COMPOS', 'EDF1': 'COMPOSALT', 'EDF2': 'COMPOSBOTH', 'EDF3': 'ATEXIT', 'EDF4': 'ATEXITALT', 'EDF5': 'SETEXITALT',
+    'EDF6': 'THENRET', 'EDF7': 'THENRETALT', 'EDF8': 'INVERT', 'EDF9': 'BOOLEVAL', 'EDFA': 'SAMEALT', 'EDFB': 'SAMEALTSAVE',
+    'F2F0': 'THROWANY', 'F2F1': 'THROWARGANY', 'F2F2': 'THROWANYIF', 'F2F3': 'THROWARGANYIF', 'F2F4': 'THROWANYIFNOT', 'F2F5': 'THROWARGANYIFNOT', 'F2FF': 'TRY',
+    'F400': 'STDICT', 'F401': 'SKIPDICT', 'F402': 'LDDICTS', 'F403': 'PLDDICTS', 'F404': 'LDDICT', 'F405': 'PLDDICT', 'F406': 'LDDICTQ', 'F407': 'PLDDICTQ',
+    'F40A': 'DICTGET', 'F40B': 'DICTGETREF', 'F40C': 'DICTIGET', 'F40D': 'DICTIGETREF', 'F40E': 'DICTUGET', 'F40F': 'DICTUGETREF',
+    'F412': 'DICTSET', 'F413': 'DICTSETREF', 'F414': 'DICTISET', 'F415': 'DICTISETREF', 'F416': 'DICTUSET', 'F417': 'DICTUSETREF',
+    'F41A': 'DICTSETGET', 'F41B': 'DICTSETGETREF', 'F41C': 'DICTISETGET', 'F41D': 'DICTISETGETREF', 'F41E': 'DICTUSETGET', 'F41F': 'DICTUSETGETREF',
+    'F422': 'DICTREPLACE', 'F423': 'DICTREPLACEREF', 'F424': 'DICTIREPLACE', 'F425': 'DICTIREPLACEREF', 'F426': 'DICTUREPLACE', 'F427': 'DICTUREPLACEREF',
+    'F432': 'DICTADD', 'F433': 'DICTADDREF', 'F434': 'DICTIADD', 'F435': 'DICTIADDREF', 'F436': 'DICTUADD', 'F437': 'DICTUADDREF',
+    'F441': 'DICTSETB', 'F442': 'DICTISETB', 'F443': 'DICTUSETB', 'F459': 'DICTDEL', 'F45A': 'DICTIDEL', 'F45B': 'DICTUDEL',
+    'F462': 'DICTDELGET', 'F463': 'DICTDELGETREF', 'F464': 'DICTIDELGET', 'F465': 'DICTIDELGETREF', 'F466': 'DICTUDELGET', 'F467': 'DICTUDELGETREF',
+    'F469': 'DICTGETOPTREF', 'F46A': 'DICTIGETOPTREF', 'F46B': 'DICTUGETOPTREF', 'F46D': 'DICTSETGETOPTREF', 'F46E': 'DICTISETGETOPTREF', 'F46F': 'DICTUSETGETOPTREF',
+    'F474': 'DICTGETNEXT', 'F475': 'DICTGETNEXTEQ', 'F476': 'DICTGETPREV', 'F477': 'DICTGETPREVEQ',
+    'F478': 'DICTIGETNEXT', 'F479': 'DICTIGETNEXTEQ', 'F47A': 'DICTIGETPREV', 'F47B': 'DICTIGETPREVEQ',
+    'F47C': 'DICTUGETNEXT', 'F47D': 'DICTUGETNEXTEQ', 'F47E': 'DICTUGETPREV', 'F47F': 'DICTUGETPREVEQ',
+    'F482': 'DICTMIN', 'F483': 'DICTMINREF', 'F484': 'DICTIMIN', 'F485': 'DICTIMINREF', 'F486': 'DICTUMIN', 'F487': 'DICTUMINREF',
+    'F48A': 'DICTMAX', 'F48B': 'DICTMAXREF', 'F48C': 'DICTIMAX', 'F48D': 'DICTIMAXREF', 'F48E': 'DICTUMAX', 'F48F': 'DICTUMAXREF',
+    'F492': 'DICTREMMIN', 'F493': 'DICTREMMINREF', 'F494': 'DICTIREMMIN', 'F495': 'DICTIREMMINREF', 'F496': 'DICTUREMMIN', 'F497': 'DICTUREMMINREF',
+    'F49A': 'DICTREMMAX', 'F49B': 'DICTREMMAXREF', 'F49C': 'DICTIREMMAX', 'F49D': 'DICTIREMMAXREF', 'F49E': 'DICTUREMMAX', 'F49F': 'DICTUREMMAXREF',
+    'F4A0': 'DICTIGETJMP', 'F4A1': 'DICTUGETJMP', 'F4A2': 'DICTIGETEXEC', 'F4A3': 'DICTUGETEXEC',
+    'F4A8': 'PFXDICTGETQ', 'F4A9': 'PFXDICTGET', 'F4AA': 'PFXDICTGETJMP', 'F4AB': 'PFXDICTGETEXEC',
+    'F4BC': 'DICTIGETJMPZ', 'F4BD': 'DICTUGETJMPZ', 'F4BE': 'DICTIGETEXECZ', 'F4BF': 'DICTUGETEXECZ',
+    'F800': 'ACCEPT', 'F801': 'SETGASLIMIT', 'F806': 'GASCONSUMED', 'F80F': 'COMMIT', 'F810': 'RANDU256', 'F811': 'RAND', 'F814': 'SETRAND', 'F815': 'ADDRAND',
+    'F823': 'NOW', 'F824': 'BLOCKLT', 'F825': 'LTIME', 'F826': 'RANDSEED', 'F827': 'BALANCE', 'F828': 'MYADDR', 'F829': 'CONFIGROOT',
+    'F82A': 'MYCODE', 'F82B': 'INCOMINGVALUE', 'F82C': 'STORAGEFEES', 'F82D': 'PREVBLOCKSINFOTUPLE', 'F82E': 'UNPACKEDCONFIGTUPLE', 'F82F': 'DUEPAYMENT',
+    'F830': 'CONFIGDICT', 'F832': 'CONFIGPARAM', 'F833': 'CONFIGOPTPARAM', 'F835': 'GLOBALID', 'F836': 'GETGASFEE', 'F837': 'GETSTORAGEFEE',
+    'F838': 'GETFORWARDFEE', 'F839': 'GETPRECOMPILEDGAS', 'F83A': 'GETORIGINALFWDFEE', 'F83B': 'GETGASFEESIMPLE', 'F83C': 'GETFORWARDFEESIMPLE',
+    'F840': 'GETGLOBVAR', 'F860': 'SETGLOBVAR',
+    'F900': 'HASHCU', 'F901': 'HASHSU', 'F902': 'SHA256U', 'F910': 'CHKSIGNU', 'F911': 'CHKSIGNS', 'F912': 'ECRECOVER',
+    'F940': 'CDATASIZEQ', 'F941': 'CDATASIZE', 'F942': 'SDATASIZEQ', 'F943': 'SDATASIZE',
+    'FA00': 'LDGRAMS', 'FA01': 'LDVARINT16', 'FA02': 'STGRAMS', 'FA03': 'STVARINT16', 'FA04': 'LDVARUINT32', 'FA05': 'LDVARINT32', 'FA06': 'STVARUINT32', 'FA07': 'STVARINT32',
+    'FA40': 'LDMSGADDR', 'FA41': 'LDMSGADDRQ', 'FA42': 'PARSEMSGADDR', 'FA43': 'PARSEMSGADDRQ',
+    'FA44': 'REWRITESTDADDR', 'FA45': 'REWRITESTDADDRQ', 'FA46': 'REWRITEVARADDR', 'FA47': 'REWRITEVARADDRQ',
+    'FB00': 'SENDRAWMSG', 'FB02': 'RAWRESERVE', 'FB03': 'RAWRESERVEX', 'FB04': 'SETCODE', 'FB06': 'SETLIBCODE', 'FB07': 'CHANGELIB', 'FB08': 'SENDMSG',
+    'FE00': 'DUMPSTK', 'FF00': 'SETCP0', 'FFF0': 'SETCPX',
+}
+
+// Prefixes are given as hex digits and the number of bits of them that are used, for opcodes that are not aligned to 4 bits
+const complex: [string, number | undefined, Handler][] = [
+    ['0', undefined, (c) => ({ args: [s(c.loadUint(4))], name: 'XCHG0' })],
+    ['10', undefined, withRegs(2, 'XCHG')],
+    ['11', undefined, (c) => ({ args: [s(0), s(c.loadUint(8))], name: 'XCHG' })],
+    ['1', undefined, (c) => ({ args: [s(1), s(c.loadUint(4))], name: 'XCHG' })],
+    ['2', undefined, (c) => {
+        const i = c.loadUint(4)
+        return i < 2 ? { args: [], name: i === 0 ? 'DUP' : 'OVER' } : { args: [s(i)], name: 'PUSH' }
+    }],
+    ['3', undefined, (c) => {
+        const i = c.loadUint(4)
+        return i < 2 ? { args: [], name: i === 0 ? 'DROP' : 'NIP' } : { args: [s(i)], name: 'POP' }
+    }],
+    ['4', undefined, withRegs(3, 'XCHG3')],
+    ['50', undefined, withRegs(2, 'XCHG2')],
+    ['51', undefined, withRegs(2, 'XCPU')],
+    ['52', undefined, withRegs(2, 'PUXC', [0, 1])],
+    ['53', undefined, withRegs(2, 'PUSH2')],
+    ['540', undefined, withRegs(3, 'XCHG3')],
+    ['541', undefined, withRegs(3, 'XC2PU')],
+    ['542', undefined, withRegs(3, 'XCPUXC', [0, 0, 1])],
+    ['543', undefined, withRegs(3, 'XCPU2')],
+    ['544', undefined, withRegs(3, 'PUXC2', [0, 1, 1])],
+    ['545', undefined, withRegs(3, 'PUXCPU', [0, 1, 1])],
+    ['546', undefined, withRegs(3, 'PU2XC', [0, 1, 2])],
+    ['547', undefined, withRegs(3, 'PUSH3')],
+    ['55', undefined, (c) => ({ args: [`${c.loadUint(4) + 1}`, `${c.loadUint(4) + 1}`], name: 'BLKSWAP' })],
+    ['56', undefined, (c) => ({ args: [s(c.loadUint(8))], name: 'PUSH' })],
+    ['57', undefined, (c) => ({ args: [s(c.loadUint(8))], name: 'POP' })],
+    ['5E', undefined, (c) => ({ args: [`${c.loadUint(4) + 2}`, `${c.loadUint(4)}`], name: 'REVERSE' })],
+    ['5F0', undefined, withUint(4, 'BLKDROP')],
+    ['5F', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'BLKPUSH' })],
+    ['6C', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'BLKDROP2' })],
+    ['6F0', undefined, withUint(4, 'TUPLE')],
+    ['6F1', undefined, withUint(4, 'INDEX')],
+    ['6F2', undefined, withUint(4, 'UNTUPLE')],
+    ['6F3', undefined, withUint(4, 'UNPACKFIRST')],
+    ['6F4', undefined, withUint(4, 'EXPLODE')],
+    ['6F5', undefined, withUint(4, 'SETINDEX')],
+    ['6F6', undefined, withUint(4, 'INDEXQ')],
+    ['6F7', undefined, withUint(4, 'SETINDEXQ')],
+    ['6FB', undefined, (c) => ({ args: [`${c.loadUint(2)}`, `${c.loadUint(2)}`], name: 'INDEX2' })],
+    ['6FC0', 10, (c) => ({ args: [`${c.loadUint(2)}`, `${c.loadUint(2)}`, `${c.loadUint(2)}`], name: 'INDEX3' })],
+    ['7', undefined, (c) => {
+        const x = c.loadUint(4)
+        return { args: [`${x > 10 ? x - 16 : x}`], name: 'PUSHINT' }
+    }],
+    ['80', undefined, withInt(8, 'PUSHINT')],
+    ['81', undefined, withInt(16, 'PUSHINT')],
+    ['82', undefined, (c) => ({ args: [`${c.loadBigInt(c.loadUint(5) * 8 + 19)}`], name: 'PUSHINT' })],
+    ['83', undefined, withUint(8, 'PUSHPOW2', 1)],
+    ['84', undefined, withUint(8, 'PUSHPOW2DEC', 1)],
+    ['85', undefined, withUint(8, 'PUSHNEGPOW2', 1)],
+    ['88', undefined, dataRefs(1, 'PUSHREF')],
+    ['89', undefined, dataRefs(1, 'PUSHREFSLICE')],
+    ['8A', undefined, codeRefs(1, 'PUSHREFCONT')],
+    ['8B', undefined, pushSlice(0, 0, 4, 8, 4)],
+    ['8C', undefined, pushSlice(2, 1, 5, 8, 1)],
+    ['8D', undefined, pushSlice(3, 0, 7, 8, 6)],
+    ['8E', 7, (c) => {
+        const refs = c.loadUint(2)
+        const bytes = c.loadUint(7)
+        return { args: [{ type: 'code', cursor: c.split(bytes * 8, refs) }], name: 'PUSHCONT' }
+    }],
+    ['9', undefined, (c) => ({ args: [{ type: 'code', cursor: c.split(c.loadUint(4) * 8, 0) }], name: 'PUSHCONT' })],
+    ['A6', undefined, withInt(8, 'ADDCONST')],
+    ['A7', undefined, withInt(8, 'MULCONST')],
+    ['AA', undefined, withUint(8, 'LSHIFT#', 1)],
+    ['AB', undefined, withUint(8, 'RSHIFT#', 1)],
+    ['B4', undefined, withUint(8, 'FITS', 1)],
+    ['B5', undefined, withUint(8, 'UFITS', 1)],
+    ['B7', undefined, (c) => {
+        const decoded = decodeInstruction(c)
+        return { ...decoded, name: 'Q' + decoded.name }
+    }],
+    ['C0', undefined, withInt(8, 'EQINT')],
+    ['C1', undefined, withInt(8, 'LESSINT')],
+    ['C2', undefined, withInt(8, 'GTINT')],
+    ['C3', undefined, withInt(8, 'NEQINT')],
+    ['CA', undefined, withUint(8, 'STI', 1)],
+    ['CB', undefined, withUint(8, 'STU', 1)],
+    ['CF08', undefined, withUint(8, 'STI', 1)],
+    ['CF09', undefined, withUint(8, 'STU', 1)],
+    ['CF0A', undefined, withUint(8, 'STIR', 1)],
+    ['CF0B', undefined, withUint(8, 'STUR', 1)],
+    ['CF0C', undefined, withUint(8, 'STIQ', 1)],
+    ['CF0D', undefined, withUint(8, 'STUQ', 1)],
+    ['CF0E', undefined, withUint(8, 'STIRQ', 1)],
+    ['CF0F', undefined, withUint(8, 'STURQ', 1)],
+    ['CF20', undefined, dataRefs(1, 'STREFCONST')],
+    ['CF21', undefined, dataRefs(2, 'STREF2CONST')],
+    ['CF38', undefined, withUint(8, 'BCHKBITS#', 1)],
+    ['CF80', 9, (c) => {
+        const refs = c.loadUint(2)
+        const bits = loadTaggedBits(c, c.loadUint(3) * 8 + 2)
+        return { args: [{ type: 'data', bits, refs: Array.from({ length: refs }, () => c.loadRef()) }], name: 'STSLICECONST' }
+    }],
+    ['D2', undefined, withUint(8, 'LDI', 1)],
+    ['D3', undefined, withUint(8, 'LDU', 1)],
+    ['D6', undefined, withUint(8, 'LDSLICE', 1)],
+    ['D708', undefined, withUint(8, 'LDI', 1)],
+    ['D709', undefined, withUint(8, 'LDU', 1)],
+    ['D70A', undefined, withUint(8, 'PLDI', 1)],
+    ['D70B', undefined, withUint(8, 'PLDU', 1)],
+    ['D70C', undefined, withUint(8, 'LDIQ', 1)],
+    ['D70D', undefined, withUint(8, 'LDUQ', 1)],
+    ['D70E', undefined, withUint(8, 'PLDIQ', 1)],
+    ['D70F', undefined, withUint(8, 'PLDUQ', 1)],
+    ['D710', 13, (c) => ({ args: [`${(c.loadUint(3) + 1) * 32}`], name: 'PLDUZ' })],
+    ['D71C', undefined, withUint(8, 'LDSLICE', 1)],
+    ['D71D', undefined, withUint(8, 'PLDSLICE', 1)],
+    ['D71E', undefined, withUint(8, 'LDSLICEQ', 1)],
+    ['D71F', undefined, withUint(8, 'PLDSLICEQ', 1)],
+    ['D74C', 14, (c) => {
+        const n = c.loadUint(2)
+        return n === 0 ? { args: [], name: 'PLDREF' } : { args: [`${n}`], name: 'PLDREFIDX' }
+    }],
+    ['DA', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'CALLXARGS' })],
+    ['DB0', undefined, (c) => ({ args: [`${c.loadUint(4)}`, '-1'], name: 'CALLXARGS' })],
+    ['DB1', undefined, withUint(4, 'JMPXARGS')],
+    ['DB2', undefined, withUint(4, 'RETARGS')],
+    ['DB36', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'CALLCCARGS' })],
+    ['DB3C', undefined, codeRefs(1, 'CALLREF')],
+    ['DB3D', undefined, codeRefs(1, 'JMPREF')],
+    ['DB3E', undefined, codeRefs(1, 'JMPREFDATA')],
+    ['E300', undefined, codeRefs(1, 'IFREF')],
+    ['E301', undefined, codeRefs(1, 'IFNOTREF')],
+    ['E302', undefined, codeRefs(1, 'IFJMPREF')],
+    ['E303', undefined, codeRefs(1, 'IFNOTJMPREF')],
+    ['E30D', undefined, codeRefs(1, 'IFREFELSE')],
+    ['E30E', undefined, codeRefs(1, 'IFELSEREF')],
+    ['E30F', undefined, codeRefs(2, 'IFREFELSEREF')],
+    ['EC', undefined, (c) => {
+        const r = c.loadUint(4)
+        const n = c.loadUint(4)
+        return { args: [`${r}`, `${n === 15 ? -1 : n}`], name: 'SETCONTARGS' }
+    }],
+    ['ED0', undefined, withUint(4, 'RETURNARGS')],
+    ['ED4', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'PUSH' })],
+    ['ED5', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'POP' })],
+    ['ED6', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SETCONTCTR' })],
+    ['ED7', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SETRETCTR' })],
+    ['ED8', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SETALTCTR' })],
+    ['ED9', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'POPSAVE' })],
+    ['EDA', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SAVE' })],
+    ['EDB', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SAVEALT' })],
+    ['EDC', undefined, (c) => ({ args: [`c${c.loadUint(4)}`], name: 'SAVEBOTH' })],
+    ['EE', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'BLESSARGS' })],
+    ['F0', undefined, withUint(8, 'CALLDICT')],
+    ['F100', 10, withUint(14, 'CALLDICT')],
+    ['F140', 10, withUint(14, 'JMPDICT')],
+    ['F180', 10, withUint(14, 'PREPAREDICT')],
+    ['F200', 10, withUint(6, 'THROW')],
+    ['F240', 10, withUint(6, 'THROWIF')],
+    ['F280', 10, withUint(6, 'THROWIFNOT')],
+    ['F2C0', 13, withUint(11, 'THROW')],
+    ['F2C8', 13, withUint(11, 'THROWARG')],
+    ['F2D0', 13, withUint(11, 'THROWIF')],
+    ['F2D8', 13, withUint(11, 'THROWARGIF')],
+    ['F2E0', 13, withUint(11, 'THROWIFNOT')],
+    ['F2E8', 13, withUint(11, 'THROWARGIFNOT')],
+    ['F3', undefined, (c) => ({ args: [`${c.loadUint(4)}`, `${c.loadUint(4)}`], name: 'TRYARGS' })],
+    ['F4A4', 14, (c) => {
+        const keyBits = c.loadUint(10)
+        return { args: [{ type: 'methods', dict: c.loadRef(), keyBits }, `${keyBits}`], name: 'DICTPUSHCONST' }
+    }],
+    ['F82', undefined, withUint(4, 'GETPARAM')],
+    ['F840', 11, withUint(5, 'GETGLOB')],
+    ['F860', 11, withUint(5, 'SETGLOB')],
+    ['FE2', undefined, (c) => ({ args: [s(c.loadUint(4))], name: 'DUMP' })],
+    ['FEF', undefined, (c) => {
+        const bytes = c.loadUint(4) + 1
+        return { args: [`"${Buffer.from(c.loadBits(bytes * 8).toString(), 'hex').toString('utf-8')}"`], name: 'DEBUGSTR' }
+    }],
+    ['FE', undefined, withUint(8, 'DEBUG')],
+    ['FF', undefined, withInt(8, 'SETCP')],
+]
+
+const opcodes = new Map<number, Map<string, Handler>>()
+for (const [hex, name] of Object.entries(simple)) {
+    complex.push([hex, undefined, op(name)])
+}
+for (const [hex, bits, handler] of complex) {
+    const prefix = hexBits(hex, bits)
+    const byLength = opcodes.get(prefix.length) ?? new Map<string, Handler>()
+    byLength.set(prefix, handler)
+    opcodes.set(prefix.length, byLength)
+}
+const prefixLengths = Array.from(opcodes.keys()).sort((a, b) => b - a)
+
+function decodeInstruction(c: CodeCursor): Decoded {
+    for (const length of prefixLengths) {
+        if (length > c.remainingBits) {
+            continue
+        }
+        const handler = opcodes.get(length)!.get(c.preloadBits(length))
+        if (handler !== undefined) {
+            c.bit += length
+            return handler(c)
+        }
+    }
+    throw new Error('Unknown opcode')
+}
+
+function formatBits(bits: BitString, refs: Cell[]): string {
+    return `x{${bits.toString()}}` + (refs.length === 0 ? '' : ` /* ${refs.length} refs */`)
+}
+
+/**
+ * Walks hashmap with `keyBits`-bit signed keys, calling `visit` with the cursor of every value.
+ */
+function walkDictionary(cell: Cell, keyBits: number, visit: (key: bigint, value: CodeCursor) => void, prefix = '') {
+    const c = CodeCursor.of(cell)
+    const remaining = keyBits - prefix.length
+    const lengthBits = Math.ceil(Math.log2(remaining + 1))
+    let label = ''
+    if (c.loadUint(1) === 0) {
+        let length = 0
+        while (c.loadUint(1) === 1) {
+            length++
+        }
+        label = c.preloadBits(length)
+        c.bit += length
+    } else if (c.loadUint(1) === 0) {
+        const length = c.loadUint(lengthBits)
+        label = c.preloadBits(length)
+        c.bit += length
+    } else {
+        const bit = c.loadUint(1)
+        label = `${bit}`.repeat(c.loadUint(lengthBits))
+    }
+
+    const key = prefix + label
+    if (key.length === keyBits) {
+        const unsigned = BigInt('0b' + key)
+        visit(key[0] === '1' ? unsigned - (1n << BigInt(keyBits)) : unsigned, c)
+        return
+    }
+    walkDictionary(c.loadRef(), keyBits, visit, key + '0')
+    walkDictionary(c.loadRef(), keyBits, visit, key + '1')
+}
+
+class Disassembler {
+    readonly instructions: DisassembledInstruction[] = []
+    protected methodNames = new Map<bigint, string>()
+
+    constructor(params?: DisassembleParams) {
+        for (const name of [...defaultMethods, ...(params?.methods ?? [])]) {
+            this.methodNames.set(BigInt(getSelectorForMethod(name)), name)
+        }
+        for (const [id, name] of Object.entries(specialMethodIds)) {
+            this.methodNames.set(BigInt(id), name)
+        }
+    }
+
+    code(c: CodeCursor, indent: string): string[] {
+        if (c.cell.isExotic) {
+            return [`${indent}// library or other exotic cell ${c.cell.hash().toString('hex')}`]
+        }
+        const cellHash = c.cell.hash().toString('hex')
+        const lines: string[] = []
+        while (c.remainingBits > 0) {
+            const offset = c.bit
+            let decoded: Decoded
+            try {
+                decoded = decodeInstruction(c)
+            } catch (e) {
+                c.bit = offset
+                lines.push(`${indent}${formatBits(c.loadBits(c.remainingBits), [])} // unknown opcode`)
+                break
+            }
+            this.instructions.push({ cellHash, offset, length: c.bit - offset, text: this.oneLine(decoded) })
+            lines.push(...this.decoded(decoded, indent))
+        }
+        // Code that continues in a ref is jumped to implicitly once the bits are over
+        if (c.remainingRefs > 0) {
+            lines.push(`${indent}<{`, ...this.code(CodeCursor.of(c.loadRef()), indent + '  '), `${indent}}> // implicit JMPREF`)
+        }
+        return lines
+    }
+
+    protected oneLine(decoded: Decoded): string {
+        const args = decoded.args.map(arg => {
+            if (typeof arg === 'string') {
+                return arg
+            }
+            return arg.type === 'data' ? formatBits(arg.bits, arg.refs) : (arg.type === 'code' ? '<{...}>' : '(:methods ...)')
+        })
+        return [...args, decoded.name].join(' ')
+    }
+
+    protected decoded(decoded: Decoded, indent: string): string[] {
+        const lines: string[] = []
+        let current = ''
+        for (const arg of decoded.args) {
+            if (typeof arg === 'string') {
+                current += arg + ' '
+            } else if (arg.type === 'data') {
+                current += formatBits(arg.bits, arg.refs) + ' '
+            } else if (arg.type === 'code') {
+                lines.push(`${indent}${current}<{`, ...this.code(arg.cursor, indent + '  '))
+                current = '}> '
+            } else {
+                lines.push(`${indent}${current}(:methods`, ...this.methods(arg.dict, arg.keyBits, indent + '  '))
+                current = ') '
+            }
+        }
+        lines.push(`${indent}${current}${decoded.name}`)
+        return lines
+    }
+
+    protected methods(dict: Cell, keyBits: number, indent: string): string[] {
+        const entries: [bigint, CodeCursor][] = []
+        walkDictionary(dict, keyBits, (key, value) => entries.push([key, value]))
+        entries.sort(([a], [b]) => a < b ? -1 : (a > b ? 1 : 0))
+        return entries.flatMap(([key, value]) => {
+            const name = this.methodNames.get(key)
+            return [`${indent}${name === undefined ? key : `${name} (${key})`}:`, ...this.code(value, indent + '  ')]
+        })
+    }
+}
+
+/**
+ * Disassembles contract code into Fift assembler-like text. Method dictionaries are shown as `(:methods ...)` with entries named after known methods.
+ * Opcodes that are not known to the disassembler are shown as raw bits, and the rest of their cell is not decoded.
+ * ```ts
+ * const contract = await blockchain.getContract(address);
+ * const state = contract.accountState;
+ * if (state?.type === 'active') {
+ *     console.log(disassemble(state.state.code!, { methods: ['get_vault_data'] }));
+ * }
+ * ```
+ *
+ * @param code Contract code
+ * @param params Optional params
+ */
+export function disassemble(code: Cell, params?: DisassembleParams): string {
+    return new Disassembler(params).code(CodeCursor.of(code), '').join('\n')
+}
+
+/**
+ * @returns Every instruction of the code with its code cell and offset, in the order they appear in {@link disassemble} output
+ */
+export function disassembleInstructions(code: Cell, params?: DisassembleParams): DisassembledInstruction[] {
+    const disassembler = new Disassembler(params)
+    disassembler.code(CodeCursor.of(code), '')
+    return disassembler.instructions
+}
+
+/**
+ * Splits VM log into steps like {@link parseVmLog} and annotates every step with disassembly of the code around the executed instruction.
+ * Needs logs of `'vm_logs_location'` or higher verbosity.
+ * ```ts
+ * const steps = annotateVmLog(tx.vmLogs, code);
+ * console.log(formatAnnotatedVmLog(steps.slice(-5)));
+ * ```
+ *
+ * @param log VM log
+ * @param code Code of the contract that produced the log
+ * @param params Optional params, `context` is the number of instructions shown before and after the executed one, 2 by default
+ */
+export function annotateVmLog(log: string, code: Cell, params?: DisassembleParams & { context?: number }): AnnotatedVmLogStep[] {
+    const context = params?.context ?? 2
+    const byCell = new Map<string, DisassembledInstruction[]>()
+    for (const instruction of disassembleInstructions(code, params)) {
+        const list = byCell.get(instruction.cellHash) ?? []
+        list.push(instruction)
+        byCell.set(instruction.cellHash, list)
+    }
+    byCell.forEach(list => list.sort((a, b) => a.offset - b.offset))
+
+    return parseVmLog(log).steps.map(step => {
+        const instructions = step.location === undefined ? undefined : byCell.get(step.location.cellHash)
+        const index = instructions?.findIndex(i => i.offset === step.location!.offset) ?? -1
+        if (instructions === undefined || index === -1) {
+            return step
+        }
+        return {
+            ...step,
+            disassembly: instructions.slice(Math.max(index - context, 0), index + context + 1).map(i => ({ ...i, current: i === instructions[index] })),
+        }
+    })
+}
+
+/**
+ * Formats annotated steps as text, marking executed instructions with `>`.
+ */
+export function formatAnnotatedVmLog(steps: AnnotatedVmLogStep[]): string {
+    return steps.map(step => [
+        `execute ${step.instruction}` + (step.exception === undefined ? '' : ` (exception ${step.exception.code}: ${step.exception.message})`),
+        ...(step.disassembly ?? []).map(i => `${i.current ? '>' : ' '} ${i.offset.toString().padStart(5)}  ${i.text}`),
+    ].join('\n')).join('\n\n')
+}
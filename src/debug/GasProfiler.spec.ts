@@ -0,0 +1,47 @@
+import { GasProfiler } from "./GasProfiler";
+
+function gasLog(cell: string, steps: [string, number][]): string {
+    return steps.map(([instruction, gas], i) => [
+        ...(instruction.startsWith('implicit ') ? [] : [`code cell hash: ${cell} offset: ${i * 8}`]),
+        `execute ${instruction}`,
+        `gas remaining: ${gas}`,
+    ].join('\n')).join('\n')
+}
+
+describe('GasProfiler', () => {
+    const cellA = 'AA'.repeat(32)
+    const cellB = 'BB'.repeat(32)
+
+    it('should aggregate gas', () => {
+        const profiler = new GasProfiler()
+        profiler.add({
+            contract: 'wallet',
+            op: '0x1',
+            vmLogs: gasLog(cellA, [['SETCP 0', 974], ['PUSHINT 1', 956], ['PUSHINT 2', 938], ['implicit RET', 933]]),
+            gasUsed: 67n,
+        })
+        profiler.add({
+            contract: 'wallet',
+            op: 'get_seqno',
+            vmLogs: gasLog(cellB, [['PUSHINT 1', 982], ['ADD', 964]]),
+            gasUsed: 36n,
+        })
+
+        expect(profiler.totalGas).toBe(103n)
+        expect(profiler.table('instruction')).toEqual([
+            { key: 'PUSHINT', gas: 54n, count: 3, share: 0.5242 },
+            { key: 'SETCP', gas: 26n, count: 1, share: 0.2524 },
+            { key: 'ADD', gas: 18n, count: 1, share: 0.1747 },
+            { key: 'implicit RET', gas: 5n, count: 1, share: 0.0485 },
+        ])
+        expect(profiler.table('cell').map(row => [row.key, row.gas])).toEqual([[cellA.toLowerCase(), 67n], [cellB.toLowerCase(), 36n]])
+        expect(profiler.table('op').map(row => [row.key, row.gas])).toEqual([['0x1', 67n], ['get_seqno', 36n]])
+        expect(profiler.collapsedStacks().split('\n')).toEqual([
+            `wallet;0x1;${cellA.toLowerCase()};SETCP 26`,
+            `wallet;0x1;${cellA.toLowerCase()};PUSHINT 36`,
+            `wallet;0x1;${cellA.toLowerCase()};implicit RET 5`,
+            `wallet;get_seqno;${cellB.toLowerCase()};PUSHINT 18`,
+            `wallet;get_seqno;${cellB.toLowerCase()};ADD 18`,
+        ])
+    })
+})
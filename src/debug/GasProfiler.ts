@@ -0,0 +1,175 @@
+import { Address, Transaction } from "@ton/core";
+import { parseVmLog } from "./VmLog";
+
+/**
+ * @type GasProfileSample Single run of the VM to be profiled.
+ * @property {string} contract Name of the contract in collapsed stacks, usually its address
+ * @property {string} op Top-level operation, for example op of the incoming message or name of the get method
+ * @property {string} vmLogs VM logs collected with `'vm_logs_gas'` or higher verbosity
+ * @property {bigint} gasUsed Total gas used by the run. Gas that cannot be attributed to instructions from the logs, such as gas of the first one, is attributed to the first instruction
+ */
+export type GasProfileSample = {
+    contract: string
+    op: string
+    vmLogs: string
+    gasUsed?: bigint
+}
+
+/**
+ * @type GasProfileRow Row of gas profile table.
+ * @property {string} key Instruction, hex hash of the code cell or op, depending on the grouping
+ * @property {bigint} gas Gas used
+ * @property {number} count Number of executed instructions
+ * @property {number} share Share of the total gas, from 0 to 1
+ */
+export type GasProfileRow = {
+    key: string
+    gas: bigint
+    count: number
+    share: number
+}
+
+export type GasProfileGrouping = 'instruction' | 'cell' | 'op'
+
+type ProfiledStep = {
+    contract: string
+    op: string
+    cell: string
+    instruction: string
+    gas: bigint
+}
+
+function mnemonic(instruction: string): string {
+    return instruction.startsWith('implicit ') ? instruction : instruction.split(' ')[0]
+}
+
+/**
+ * @returns Op of the incoming message of the transaction in the form used by {@link printTransactionFees}
+ */
+export function transactionOp(tx: Transaction): string {
+    const message = tx.inMessage
+    if (!message) {
+        return tx.description.type === 'tick-tock' ? (tx.description.isTock ? 'tock' : 'tick') : 'N/A'
+    }
+    if (message.info.type !== 'internal') {
+        return 'external'
+    }
+    const body = message.body.beginParse()
+    return body.remainingBits >= 32 ? '0x' + body.preloadUint(32).toString(16) : 'no body'
+}
+
+/**
+ * Aggregates gas used by VM runs by instruction, by code cell and by top-level op. Usually created by {@link Blockchain.profileMessage} and
+ * {@link Blockchain.profileGetMethod}, but can also be filled with transactions collected with `'vm_logs_gas'` verbosity:
+ * ```ts
+ * const profiler = new GasProfiler();
+ * result.transactions.forEach(tx => profiler.addTransaction(tx));
+ * profiler.printTable('instruction', 10);
+ * await writeFile('gas.folded', profiler.collapsedStacks()); // flamegraph.pl gas.folded > gas.svg
+ * ```
+ */
+export class GasProfiler {
+    protected steps: ProfiledStep[] = []
+
+    add(sample: GasProfileSample) {
+        const { steps } = parseVmLog(sample.vmLogs)
+        const profiled: ProfiledStep[] = []
+        let cell = 'unknown'
+        for (const step of steps) {
+            // Implicit RET and JMPREF have no location, they belong to the cell of the code that was executed before
+            cell = step.location?.cellHash ?? cell
+            profiled.push({
+                contract: sample.contract,
+                op: sample.op,
+                cell,
+                instruction: mnemonic(step.instruction),
+                gas: step.gasUsed ?? 0n,
+            })
+        }
+        if (sample.gasUsed !== undefined && profiled.length > 0) {
+            const attributed = profiled.reduce((sum, step) => sum + step.gas, 0n)
+            if (sample.gasUsed > attributed) {
+                profiled[0].gas += sample.gasUsed - attributed
+            }
+        }
+        this.steps.push(...profiled)
+    }
+
+    /**
+     * Adds transaction with VM logs of `'vm_logs_gas'` or higher verbosity. Transactions that did not run the VM are skipped.
+     */
+    addTransaction(tx: Transaction & { vmLogs: string }) {
+        if ((tx.description.type !== 'generic' && tx.description.type !== 'tick-tock') || tx.description.computePhase.type !== 'vm') {
+            return
+        }
+        const dest = tx.inMessage?.info.dest
+        // Transactions do not store the workchain, but only masterchain accounts have tick-tock transactions
+        const address = dest instanceof Address ? dest : new Address(-1, Buffer.from(tx.address.toString(16).padStart(64, '0'), 'hex'))
+        this.add({
+            contract: address.toString(),
+            op: transactionOp(tx),
+            vmLogs: tx.vmLogs,
+            gasUsed: tx.description.computePhase.gasUsed,
+        })
+    }
+
+    /**
+     * Adds get method run with VM logs of `'vm_logs_gas'` or higher verbosity.
+     */
+    addGetMethod(address: Address, method: number | string, result: { vmLogs: string, gasUsed: bigint }) {
+        this.add({
+            contract: address.toString(),
+            op: typeof method === 'string' ? method : `method ${method}`,
+            vmLogs: result.vmLogs,
+            gasUsed: result.gasUsed,
+        })
+    }
+
+    get totalGas(): bigint {
+        return this.steps.reduce((sum, step) => sum + step.gas, 0n)
+    }
+
+    /**
+     * @returns Gas grouped by instruction mnemonic, code cell hash or op, most expensive first
+     */
+    table(by: GasProfileGrouping): GasProfileRow[] {
+        const rows = new Map<string, GasProfileRow>()
+        const total = this.totalGas
+        for (const step of this.steps) {
+            const key = by === 'instruction' ? step.instruction : (by === 'cell' ? step.cell : step.op)
+            const row = rows.get(key) ?? { key, gas: 0n, count: 0, share: 0 }
+            row.gas += step.gas
+            row.count++
+            row.share = total === 0n ? 0 : Number(row.gas * 10000n / total) / 10000
+            rows.set(key, row)
+        }
+        return Array.from(rows.values()).sort((a, b) => a.gas === b.gas ? b.count - a.count : (a.gas < b.gas ? 1 : -1))
+    }
+
+    /**
+     * Prints gas table.
+     *
+     * @param by Grouping of the table
+     * @param limit Number of rows to print, all rows are printed if omitted
+     */
+    printTable(by: GasProfileGrouping, limit?: number) {
+        console.table(this.table(by).slice(0, limit).map(row => ({
+            [by]: row.key,
+            gas: Number(row.gas),
+            count: row.count,
+            share: (row.share * 100).toFixed(2) + '%',
+        })))
+    }
+
+    /**
+     * @returns Profile in the collapsed stacks format used by flame graph tools, one `contract;op;cell;instruction gas` line per unique stack
+     */
+    collapsedStacks(): string {
+        const stacks = new Map<string, bigint>()
+        for (const step of this.steps) {
+            const stack = [step.contract, step.op, step.cell, step.instruction].join(';')
+            stacks.set(stack, (stacks.get(stack) ?? 0n) + step.gas)
+        }
+        return Array.from(stacks.entries()).map(([stack, gas]) => `${stack} ${gas}`).join('\n')
+    }
+}
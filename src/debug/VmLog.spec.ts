@@ -0,0 +1,85 @@
+import { beginCell } from "@ton/core";
+import "@ton/test-utils";
+import { parseVmLog, parseVmStack } from "./VmLog";
+
+describe('VmLog', () => {
+    it('should parse stack items', () => {
+        const cell = beginCell().storeUint(123, 32).endCell()
+        const boc = cell.toBoc({ idx: false, crc32: false }).toString('hex').toUpperCase()
+
+        const stack = parseVmStack(`[ -5 NaN () [ 1 [] ] C{${boc}} CS{${boc}} C{${cell.hash().toString('hex').toUpperCase()}} CS{Cell{0008} bits: 0..32; refs: 0..0} Cont{vmc_std} ]`)
+
+        expect(stack.slice(0, 4)).toEqual([
+            { type: 'int', value: -5n },
+            { type: 'nan' },
+            { type: 'null' },
+            { type: 'tuple', items: [{ type: 'int', value: 1n }, { type: 'tuple', items: [] }] },
+        ])
+        expect(stack[4].type).toBe('cell')
+        expect(stack[4].type === 'cell' && stack[4].cell).toEqualCell(cell)
+        expect(stack[5].type === 'slice' && stack[5].cell).toEqualCell(cell)
+        expect(stack.slice(6)).toEqual([
+            { type: 'opaque', kind: 'cell', value: cell.hash().toString('hex').toUpperCase() },
+            { type: 'opaque', kind: 'slice', value: 'Cell{0008} bits: 0..32; refs: 0..0' },
+            { type: 'opaque', kind: 'continuation', value: 'vmc_std' },
+        ])
+    })
+
+    it('should split log into steps', () => {
+        const hash = 'AB'.repeat(32)
+        const log = [
+            'stack: [ 0 ]',
+            `code cell hash: ${hash} offset: 0`,
+            'execute SETCP 0',
+            'gas remaining: 999974',
+            'stack: [ 0 ]',
+            `code cell hash: ${hash} offset: 16`,
+            'execute PUSHINT 5',
+            'gas remaining: 999956',
+            'stack: [ 0 5 ]',
+            `code cell hash: ${hash} offset: 24`,
+            'execute THROWANY',
+            'handling exception code 5: integer out of range',
+            'default exception handler, terminating vm with exit code 5',
+            'gas remaining: 999880',
+            '#DEBUG#: something',
+        ].join('\n')
+
+        const parsed = parseVmLog(log)
+
+        expect(parsed.exitCode).toBe(5)
+        expect(parsed.unparsed).toEqual(['#DEBUG#: something'])
+        expect(parsed.steps).toEqual([
+            {
+                instruction: 'SETCP 0',
+                location: { cellHash: hash.toLowerCase(), offset: 0 },
+                gasRemaining: 999974n,
+                stackBefore: [{ type: 'int', value: 0n }],
+                stackAfter: [{ type: 'int', value: 0n }],
+            },
+            {
+                instruction: 'PUSHINT 5',
+                location: { cellHash: hash.toLowerCase(), offset: 16 },
+                gasRemaining: 999956n,
+                gasUsed: 18n,
+                stackBefore: [{ type: 'int', value: 0n }],
+                stackAfter: [{ type: 'int', value: 0n }, { type: 'int', value: 5n }],
+            },
+            {
+                instruction: 'THROWANY',
+                location: { cellHash: hash.toLowerCase(), offset: 24 },
+                gasRemaining: 999880n,
+                gasUsed: 76n,
+                stackBefore: [{ type: 'int', value: 0n }, { type: 'int', value: 5n }],
+                exception: { code: 5, message: 'integer out of range' },
+            },
+        ])
+    })
+
+    it('should parse short logs', () => {
+        const parsed = parseVmLog('execute SETCP 0\nexecute implicit RET\n')
+
+        expect(parsed.exitCode).toBeUndefined()
+        expect(parsed.steps).toEqual([{ instruction: 'SETCP 0' }, { instruction: 'implicit RET' }])
+    })
+})
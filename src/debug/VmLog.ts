@@ -0,0 +1,228 @@
+import { Cell, TupleItem } from "@ton/core";
+
+/**
+ * @type VmLogOpaqueItem Stack value that cannot be restored from the log, for example a cell that is printed by its hash only
+ * unless `'vm_logs_verbose'` verbosity is used.
+ * @property {string} kind Kind of the value
+ * @property {string} value Value as printed by the VM
+ */
+export type VmLogOpaqueItem = {
+    type: 'opaque'
+    kind: 'cell' | 'slice' | 'builder' | 'continuation' | 'unknown'
+    value: string
+}
+
+export type VmLogStackItem = TupleItem | VmLogOpaqueItem
+
+/**
+ * @type VmLogLocation Position of an instruction in contract code.
+ * @property {string} cellHash Hex hash of the code cell containing the instruction
+ * @property {number} offset Offset of the instruction in the cell, in bits
+ */
+export type VmLogLocation = {
+    cellHash: string
+    offset: number
+}
+
+/**
+ * @type VmLogException Exception thrown by the instruction.
+ */
+export type VmLogException = {
+    code: number
+    message: string
+}
+
+/**
+ * @type VmLogStep Execution of a single instruction. Fields other than `instruction` are present only if the log has enough verbosity:
+ * locations need `'vm_logs_location'`, gas needs `'vm_logs_gas'`, stacks need `'vm_logs_full'`.
+ * @property {string} instruction Executed instruction with its arguments, for example `PUSHINT 5` or `implicit RET`
+ * @property {VmLogLocation} location Position of the instruction in code
+ * @property {bigint} gasRemaining Gas remaining after the instruction
+ * @property {bigint} gasUsed Gas consumed by the instruction. Not known for the first instruction
+ * @property {VmLogStackItem[]} stackBefore Stack before the instruction, top of the stack is the last item
+ * @property {VmLogStackItem[]} stackAfter Stack after the instruction. Not known for the last instruction
+ * @property {VmLogException} exception Exception thrown by the instruction
+ */
+export type VmLogStep = {
+    instruction: string
+    location?: VmLogLocation
+    gasRemaining?: bigint
+    gasUsed?: bigint
+    stackBefore?: VmLogStackItem[]
+    stackAfter?: VmLogStackItem[]
+    exception?: VmLogException
+}
+
+/**
+ * @type ParsedVmLog VM log split into steps.
+ * @property {number} exitCode Exit code the VM was terminated with by the default exception handler, undefined if it finished normally
+ * @property {string[]} unparsed Lines that are not recognized
+ */
+export type ParsedVmLog = {
+    steps: VmLogStep[]
+    exitCode?: number
+    unparsed: string[]
+}
+
+const BOC_MAGIC = 'b5ee9c72'
+
+function tokenize(src: string): string[] {
+    const tokens: string[] = []
+    let depth = 0
+    let current = ''
+    for (const char of src) {
+        if (char === '{') {
+            depth++
+        } else if (char === '}') {
+            depth--
+        }
+        if (depth === 0 && /\s/.test(char)) {
+            if (current.length > 0) {
+                tokens.push(current)
+                current = ''
+            }
+            continue
+        }
+        current += char
+    }
+    if (current.length > 0) {
+        tokens.push(current)
+    }
+    return tokens
+}
+
+function parseBoc(hex: string): Cell | undefined {
+    if (!hex.toLowerCase().startsWith(BOC_MAGIC)) {
+        return undefined
+    }
+    try {
+        return Cell.fromBoc(Buffer.from(hex, 'hex'))[0]
+    } catch (e) {
+        return undefined
+    }
+}
+
+function parseValue(token: string): VmLogStackItem {
+    if (/^-?\d+$/.test(token)) {
+        return { type: 'int', value: BigInt(token) }
+    }
+    if (token === 'NaN') {
+        return { type: 'nan' }
+    }
+    if (token === '()') {
+        return { type: 'null' }
+    }
+
+    const braced = token.match(/^(C|CS|BC|Cont)\{(.*)\}$/s)
+    if (braced === null) {
+        return { type: 'opaque', kind: 'unknown', value: token }
+    }
+    const cell = parseBoc(braced[2])
+    switch (braced[1]) {
+        case 'C':
+            return cell === undefined ? { type: 'opaque', kind: 'cell', value: braced[2] } : { type: 'cell', cell }
+        case 'CS':
+            return cell === undefined ? { type: 'opaque', kind: 'slice', value: braced[2] } : { type: 'slice', cell }
+        case 'BC':
+            return cell === undefined ? { type: 'opaque', kind: 'builder', value: braced[2] } : { type: 'builder', cell }
+        default:
+            return { type: 'opaque', kind: 'continuation', value: braced[2] }
+    }
+}
+
+function parseTokens(tokens: string[], start: number): [VmLogStackItem[], number] {
+    const items: VmLogStackItem[] = []
+    let i = start
+    while (i < tokens.length && tokens[i] !== ']') {
+        if (tokens[i] === '[') {
+            const [nested, next] = parseTokens(tokens, i + 1)
+            items.push({ type: 'tuple', items: nested as TupleItem[] })
+            i = next + 1
+        } else if (tokens[i] === '[]') {
+            items.push({ type: 'tuple', items: [] })
+            i++
+        } else {
+            items.push(parseValue(tokens[i]))
+            i++
+        }
+    }
+    return [items, i]
+}
+
+/**
+ * Parses stack printed by the VM, for example `[ 1 NaN () [ 2 3 ] C{...} ]`.
+ *
+ * @returns Stack items, top of the stack is the last item
+ */
+export function parseVmStack(src: string): VmLogStackItem[] {
+    const tokens = tokenize(src)
+    if (tokens[0] !== '[') {
+        throw new Error(`Invalid VM stack: ${src}`)
+    }
+    return parseTokens(tokens, 1)[0]
+}
+
+/**
+ * Splits VM log into steps, one for every executed instruction. Works with logs of any verbosity from `'vm_logs'` to `'vm_logs_verbose'`.
+ * ```ts
+ * blockchain.verbosity = { ...blockchain.verbosity, vmLogs: 'vm_logs_full' };
+ * const res = await blockchain.sendMessage(message);
+ * const { steps } = parseVmLog(res.transactions[0].vmLogs);
+ * const expensive = steps.filter(step => (step.gasUsed ?? 0n) > 100n);
+ * ```
+ *
+ * @param log VM log of a transaction, a get method or an {@link EmulationError}
+ */
+export function parseVmLog(log: string): ParsedVmLog {
+    const result: ParsedVmLog = { steps: [], unparsed: [] }
+    let stack: VmLogStackItem[] | undefined = undefined
+    let location: VmLogLocation | undefined = undefined
+    let last: VmLogStep | undefined = undefined
+
+    for (const rawLine of log.split('\n')) {
+        const line = rawLine.trim()
+        if (line.length === 0) {
+            continue
+        }
+
+        let match: RegExpMatchArray | null
+        if (line.startsWith('stack:')) {
+            stack = parseVmStack(line.slice('stack:'.length))
+            if (last !== undefined) {
+                last.stackAfter = stack
+            }
+        } else if ((match = line.match(/^code cell hash: ([0-9A-Fa-f]+) offset: (\d+)$/)) !== null) {
+            location = { cellHash: match[1].toLowerCase(), offset: Number(match[2]) }
+        } else if ((match = line.match(/^execute (.*)$/)) !== null) {
+            last = { instruction: match[1] }
+            if (location !== undefined) {
+                last.location = location
+            }
+            if (stack !== undefined) {
+                last.stackBefore = stack
+            }
+            result.steps.push(last)
+            stack = undefined
+            location = undefined
+        } else if ((match = line.match(/^gas remaining: (-?\d+)$/)) !== null) {
+            if (last !== undefined) {
+                const gasRemaining = BigInt(match[1])
+                const previous = result.steps[result.steps.length - 2]?.gasRemaining
+                last.gasRemaining = gasRemaining
+                if (previous !== undefined) {
+                    last.gasUsed = previous - gasRemaining
+                }
+            }
+        } else if ((match = line.match(/^handling exception code (\d+): (.*)$/)) !== null) {
+            if (last !== undefined) {
+                last.exception = { code: Number(match[1]), message: match[2] }
+            }
+        } else if ((match = line.match(/^default exception handler, terminating vm with exit code (-?\d+)$/)) !== null) {
+            result.exitCode = Number(match[1])
+        } else {
+            result.unparsed.push(line)
+        }
+    }
+
+    return result
+}
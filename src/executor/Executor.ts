@@ -1,4 +1,4 @@
-import {Address, Cell, serializeTuple, TupleItem} from "@ton/core";
+import {Address, beginCell, Cell, serializeTuple, Tuple, TupleItem} from "@ton/core";
 import {base64Decode} from "../utils/base64";
 import { ExtraCurrency } from "../utils/ec";
 const EmulatorModule = require('./emulator-emscripten.js');
@@ -18,6 +18,7 @@ export type GetMethodArgs = {
     gasLimit: bigint
     debugEnabled: boolean
     extraCurrency?: ExtraCurrency
+    prevBlocksInfo?: Tuple
 }
 
 export type GetMethodResultSuccess = {
@@ -50,6 +51,7 @@ export type RunCommonArgs = {
     randomSeed: Buffer | null
     ignoreChksig: boolean
     debugEnabled: boolean
+    prevBlocksInfo?: Tuple
 }
 
 export type RunTransactionArgs = {
@@ -75,6 +77,7 @@ type GetMethodInternalParams = {
     method_id: number
     debug_enabled: boolean
     extra_currencies?: { [k: string]: string }
+    prev_blocks_info?: string
 };
 
 type EmulationInternalParams = {
@@ -85,6 +88,7 @@ type EmulationInternalParams = {
     debug_enabled: boolean
     is_tick_tock?: boolean
     is_tock?: boolean
+    prev_blocks_info?: string
 };
 
 export type ExecutorVerbosity = 'short' | 'full' | 'full_location' | 'full_location_gas' | 'full_location_stack' | 'full_location_stack_verbose'
@@ -139,6 +143,15 @@ const verbosityToNum: Record<ExecutorVerbosity, number> = {
     'full_location_stack_verbose': 5,
 }
 
+// The emulator expects a single serialized VmStackValue, while serializeTuple produces a whole VmStack,
+// so the value is cut out of a one-element stack
+function serializeStackValue(value: TupleItem): string {
+    const cs = serializeTuple([value]).beginParse()
+    cs.skip(24)
+    cs.loadRef()
+    return beginCell().storeSlice(cs).endCell().toBoc().toString('base64')
+}
+
 function runCommonArgsToInternalParams(args: RunCommonArgs): EmulationInternalParams {
     return {
         utime: args.now,
@@ -146,6 +159,7 @@ function runCommonArgsToInternalParams(args: RunCommonArgs): EmulationInternalPa
         rand_seed: args.randomSeed === null ? '' : args.randomSeed.toString('hex'),
         ignore_chksig: args.ignoreChksig,
         debug_enabled: args.debugEnabled,
+        prev_blocks_info: args.prevBlocksInfo === undefined ? undefined : serializeStackValue(args.prevBlocksInfo),
     }
 }
 
@@ -250,6 +264,7 @@ export class Executor implements IExecutor {
             gas_limit: args.gasLimit.toString(),
             method_id: args.methodId,
             debug_enabled: args.debugEnabled,
+            prev_blocks_info: args.prevBlocksInfo === undefined ? undefined : serializeStackValue(args.prevBlocksInfo),
         };
 
         if (args.extraCurrency !== undefined) {
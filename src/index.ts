@@ -3,6 +3,15 @@ export {
     defaultConfigSeqno,
 } from './config/defaultConfig';
 
+export {
+    BlockchainConfigEditor,
+    GlobalVersion,
+    StoragePrices,
+    GasLimitsPrices,
+    MsgForwardPrices,
+    SizeLimits,
+} from './config/BlockchainConfigEditor';
+
 export {
     Blockchain,
     toSandboxContract,
@@ -14,8 +23,55 @@ export {
     ExternalOutInfo,
     BlockchainConfig,
     BlockchainSnapshot,
+    SendMessageParams,
+    ContractCallParams,
+    ClockPolicy,
+    RandomSeedPolicy,
+    SpecialAccount,
+    BeforeMessageHook,
+    AfterTransactionHook,
+    ExternalOutHook,
+    TransactionLimits,
+    TransactionLimitError,
 } from './blockchain/Blockchain';
 
+export {
+    MessageQueueOrder,
+    MessageQueueStrategy,
+} from './blockchain/MessageQueue';
+
+export {
+    InterleavingCheck,
+    ExploreInterleavingsParams,
+    InterleavingFailure,
+    InterleavingsReport,
+    scheduleQueueStrategy,
+} from './blockchain/Interleavings';
+
+export {
+    TransactionHistoryParams,
+} from './blockchain/TransactionHistory';
+
+export {
+    LibraryInfo,
+    LibrarySnapshot,
+    libraryCell,
+    LibraryResolver,
+    directoryLibraryResolver,
+} from './blockchain/Libraries';
+
+export {
+    Breakpoint,
+    BreakpointPredicate,
+} from './blockchain/Breakpoint';
+
+export {
+    BlockId,
+    EmulatedBlock,
+    PrevBlocksInfo,
+    prevBlocksInfoToTuple,
+} from './blockchain/Blocks';
+
 export {
     BlockchainContractProvider,
     SandboxContractProvider,
@@ -28,6 +84,7 @@ export {
 export {
     BlockchainStorage,
     LocalBlockchainStorage,
+    ForkedBlockchainStorage,
     RemoteBlockchainStorage,
     RemoteBlockchainStorageClient,
     wrapTonClient4ForRemote,
@@ -61,6 +118,50 @@ export {
     ExecutorVerbosity,
 } from './executor/Executor';
 
+export {
+    VmLogStackItem,
+    VmLogOpaqueItem,
+    VmLogLocation,
+    VmLogException,
+    VmLogStep,
+    ParsedVmLog,
+    parseVmLog,
+    parseVmStack,
+} from './debug/VmLog';
+
+export {
+    GasProfiler,
+    GasProfileSample,
+    GasProfileRow,
+    GasProfileGrouping,
+} from './debug/GasProfiler';
+
+export {
+    SourceLocation,
+    DebugMark,
+    ContractDebugInfo,
+    DebugInfoRegistry,
+    FailureReport,
+    FailureReportFrame,
+    formatFailureReport,
+} from './debug/DebugInfo';
+
+export {
+    Coverage,
+    CoverageData,
+    FileCoverage,
+} from './debug/Coverage';
+
+export {
+    DisassembleParams,
+    DisassembledInstruction,
+    AnnotatedVmLogStep,
+    disassemble,
+    disassembleInstructions,
+    annotateVmLog,
+    formatAnnotatedVmLog,
+} from './debug/Disassembler';
+
 export {
     Event,
     EventAccountCreated,
@@ -0,0 +1,27 @@
+import { AccountStorage, beginCell, Cell, storeAccountStorage, StorageUsed } from "@ton/core";
+
+/**
+ * Computes storage used by account the same way the storage phase does: unique cells and bits of serialized {@link AccountStorage}.
+ */
+export function computeStorageUsed(storage: AccountStorage): StorageUsed {
+    const visited = new Set<string>()
+    let cells = 0n
+    let bits = 0n
+    const visit = (cell: Cell) => {
+        const hash = cell.hash().toString('hex')
+        if (visited.has(hash)) {
+            return
+        }
+        visited.add(hash)
+        cells++
+        bits += BigInt(cell.bits.length)
+        cell.refs.forEach(visit)
+    }
+    visit(beginCell().store(storeAccountStorage(storage)).endCell())
+
+    return {
+        cells,
+        bits,
+        publicCells: 0n,
+    }
+}